@@ -1,26 +1,11 @@
-(() => {
-  const myHeaders = new Headers();
-
-  myHeaders.append("X-TYPESENSE-API-KEY", process.env.TYPESENSE_API_KEY || "");
-
-  const requestOptions: RequestInit = {
-    method: "GET",
-    headers: myHeaders,
-    redirect: "follow"
-  };
+import fs from "node:fs";
+import { getSearchProvider } from "@/lib/search";
 
-  const searchParams = new URLSearchParams({
-    q: "macbook",
-    query_by: "title,repmodel",
-    sort_by: "top:desc,percent_offer:desc",
-    per_page: "5"
-  });
-
-  fetch(`http://typesense-app-autoscaling-lb-290518720.us-west-2.elb.amazonaws.com/collections/products2/documents/search?${searchParams.toString()}`, requestOptions)
-    .then((response) => response.text())
+(() => {
+  getSearchProvider()
+    .search({ query: "macbook", perPage: 5 })
     .then((result) => {
-      const fs = require("node:fs");
-      fs.writeFileSync("cook/out.json", result);
+      fs.writeFileSync("cook/out.json", JSON.stringify(result, null, 2));
     })
     .catch((error) => console.error(error));
 })();
@@ -0,0 +1,14 @@
+import { jsonError } from "@/lib/http";
+import { resolveClientIdentity } from "@/lib/identity";
+import { getSearchCacheStats } from "@/lib/search/cache";
+
+// Hit, stale and miss counts of the search cache since the counters were reset
+export async function GET(req: Request) {
+	const identity = await resolveClientIdentity(req);
+
+	if (!identity.isAdmin) {
+		return jsonError(401, "Unauthorized", "Invalid admin secret.");
+	}
+
+	return Response.json(await getSearchCacheStats());
+}
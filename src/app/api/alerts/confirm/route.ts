@@ -0,0 +1,28 @@
+import { confirmAlert } from "@/lib/alerts";
+import { htmlPage } from "@/lib/http";
+
+// Opened from the confirmation link sent to the contact of a new alert. The
+// GET only shows a button, mail scanners open links without clicking it.
+export async function GET(req: Request) {
+	if (!new URL(req.url).searchParams.get("token")) {
+		return htmlPage(404, "El enlace de confirmación no es válido o ya expiró.");
+	}
+
+	return htmlPage(200, "Confirma que quieres recibir esta alerta de precio.", {
+		label: "Confirmar alerta",
+	});
+}
+
+export async function POST(req: Request) {
+	const token = new URL(req.url).searchParams.get("token");
+	const alert = token ? await confirmAlert(token) : null;
+
+	if (!alert) {
+		return htmlPage(404, "El enlace de confirmación no es válido o ya expiró.");
+	}
+
+	return htmlPage(
+		200,
+		`Listo, te avisaremos cuando ${alert.productTitle} baje de precio.`,
+	);
+}
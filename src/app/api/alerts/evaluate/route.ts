@@ -0,0 +1,20 @@
+import { evaluateAlerts } from "@/lib/alerts";
+import { getAlertNotifier } from "@/lib/alerts/notifiers";
+import { jsonError } from "@/lib/http";
+
+export const maxDuration = 60;
+
+// Invoked by the scheduler (see vercel.json), which sends CRON_SECRET as a bearer token
+export async function GET(req: Request) {
+	const secret = process.env.CRON_SECRET;
+
+	if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+		return jsonError(401, "Unauthorized", "Invalid cron secret.");
+	}
+
+	const summary = await evaluateAlerts(getAlertNotifier(), {
+		baseUrl: new URL(req.url).origin,
+	});
+
+	return Response.json(summary);
+}
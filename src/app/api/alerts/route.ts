@@ -0,0 +1,68 @@
+import { createAlert } from "@/lib/alerts";
+import { createAlertSchema } from "@/lib/alerts/schema";
+import { jsonError } from "@/lib/http";
+import { getCallerId, resolveClientIdentity } from "@/lib/identity";
+import {
+	checkRateLimit,
+	getApiKeyFromRequest,
+	rateLimitExceeded,
+	resolveApiKey,
+} from "@/lib/rate-limit";
+
+// Subscribes a contact to a price alert for a product. New contacts get a
+// confirmation link first, the alert only notifies once it is opened.
+export async function POST(req: Request) {
+	const apiKey = getApiKeyFromRequest(req);
+	const key = apiKey ? await resolveApiKey(apiKey) : null;
+
+	if (apiKey && !key) {
+		return jsonError(401, "Invalid API key", "The API key is not valid.");
+	}
+
+	const identity = await resolveClientIdentity(req);
+
+	if (identity.access === "deny") {
+		return jsonError(403, "Forbidden", "Access from this address is blocked.");
+	}
+
+	// Alerts have their own buckets, separate from the chat ones
+	const rateLimit =
+		identity.access === "allow"
+			? null
+			: await checkRateLimit({
+					identifier: `alerts:${getCallerId(identity, key?.id)}`,
+					tier: key?.tier ?? "anonymous",
+					ip: `alerts:${identity.ip}`,
+				});
+
+	if (rateLimit && !rateLimit.success) {
+		return rateLimitExceeded(rateLimit);
+	}
+
+	const body = await req.json().catch(() => null);
+	const parsed = createAlertSchema.safeParse(body);
+
+	if (!parsed.success) {
+		return jsonError(400, "Invalid alert", "The alert request is not valid.", {
+			issues: parsed.error.issues,
+		});
+	}
+
+	const result = await createAlert(parsed.data, {
+		baseUrl: new URL(req.url).origin,
+	});
+
+	if (result.status === "not_found") {
+		return jsonError(404, "Not found", "The product does not exist.");
+	}
+
+	if (result.status === "confirmation_limit") {
+		return jsonError(
+			429,
+			"Too many confirmations",
+			"Too many alert confirmations were sent to this contact today.",
+		);
+	}
+
+	return Response.json(result.alert, { status: 201 });
+}
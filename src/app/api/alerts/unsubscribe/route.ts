@@ -0,0 +1,31 @@
+import { unsubscribeAlert } from "@/lib/alerts";
+import { htmlPage } from "@/lib/http";
+
+// Opened from the unsubscribe link included in every alert message
+export async function GET(req: Request) {
+	if (!new URL(req.url).searchParams.get("token")) {
+		return htmlPage(404, "El enlace para cancelar la alerta no es válido.");
+	}
+
+	return htmlPage(200, "¿Quieres dejar de recibir esta alerta de precio?", {
+		label: "Cancelar alerta",
+	});
+}
+
+// Also accepts one-click unsubscribe POSTs from mail clients (RFC 8058)
+export async function POST(req: Request) {
+	const token = new URL(req.url).searchParams.get("token");
+	const alert = token ? await unsubscribeAlert(token) : null;
+
+	if (!alert) {
+		return htmlPage(
+			404,
+			"El enlace para cancelar la alerta no es válido o la alerta ya no existe.",
+		);
+	}
+
+	return htmlPage(
+		200,
+		`Listo, ya no te avisaremos sobre ${alert.productTitle}.`,
+	);
+}
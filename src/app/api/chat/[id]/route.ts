@@ -0,0 +1,68 @@
+import {
+	deleteChatSession,
+	getChatSession,
+	isValidSessionId,
+} from "@/lib/chat/sessions";
+import { jsonError } from "@/lib/http";
+import { getCallerId, resolveClientIdentity } from "@/lib/identity";
+import { getApiKeyFromRequest, resolveApiKey } from "@/lib/rate-limit";
+
+interface RouteContext {
+	params: Promise<{ id: string }>;
+}
+
+// Conversations are only visible to the caller that started them
+async function resolveOwner(req: Request): Promise<string | null> {
+	const apiKey = getApiKeyFromRequest(req);
+	const key = apiKey ? await resolveApiKey(apiKey) : null;
+
+	if (apiKey && !key) {
+		return null;
+	}
+
+	return getCallerId(await resolveClientIdentity(req), key?.id);
+}
+
+// Loads the stored history of a conversation so the client can resume it
+export async function GET(req: Request, { params }: RouteContext) {
+	const { id } = await params;
+
+	if (!isValidSessionId(id)) {
+		return jsonError(400, "Invalid session id", "The session id is not valid.");
+	}
+
+	const owner = await resolveOwner(req);
+
+	if (!owner) {
+		return jsonError(401, "Invalid API key", "The API key is not valid.");
+	}
+
+	const session = await getChatSession(id, owner);
+
+	if (!session) {
+		return jsonError(404, "Not found", "The conversation does not exist.");
+	}
+
+	const { messages, updatedAt } = session;
+
+	return Response.json({ id, messages, updatedAt });
+}
+
+// Clears a conversation, e.g. when the user starts a new chat
+export async function DELETE(req: Request, { params }: RouteContext) {
+	const { id } = await params;
+
+	if (!isValidSessionId(id)) {
+		return jsonError(400, "Invalid session id", "The session id is not valid.");
+	}
+
+	const owner = await resolveOwner(req);
+
+	if (!owner) {
+		return jsonError(401, "Invalid API key", "The API key is not valid.");
+	}
+
+	await deleteChatSession(id, owner);
+
+	return new Response(null, { status: 204 });
+}
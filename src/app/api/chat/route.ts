@@ -1,271 +1,189 @@
-import { compressProductData } from "@/lib/utils/parse-search-results";
-import { openai } from "@ai-sdk/openai";
-import { Ratelimit } from "@upstash/ratelimit";
-import { Redis } from "@upstash/redis";
-import { streamText, tool } from "ai";
-import { z } from "zod";
-
-// Initialize Upstash Redis and Ratelimit
-const redis = Redis.fromEnv();
-const ratelimit = new Ratelimit({
-	redis,
-	limiter: Ratelimit.slidingWindow(20, "1 m"), // 20 requests per minute
-	analytics: true,
-	prefix: "@compy/chat",
-});
+import {
+	canSaveChatSession,
+	getChatSession,
+	isValidSessionId,
+	saveChatSession,
+} from "@/lib/chat/sessions";
+import { parseChatRequest } from "@/lib/chat/validation";
+import {
+	addToolResult,
+	createGuardrailContext,
+	createGuardrailsTransform,
+} from "@/lib/guardrails";
+import { jsonError } from "@/lib/http";
+import {
+	getCallerId,
+	resolveClientIdentity,
+	sessionCookieHeaders,
+} from "@/lib/identity";
+import { getChatModel } from "@/lib/models";
+import { composeSystemPrompt } from "@/lib/prompts";
+import {
+	type RateLimitSubject,
+	checkRateLimit,
+	getApiKeyFromRequest,
+	rateLimitExceeded,
+	rateLimitHeaders,
+	recordTokenUsage,
+	resolveApiKey,
+} from "@/lib/rate-limit";
+import { compareProducts } from "@/lib/tools/compare-products";
+import { createPriceAlertTool } from "@/lib/tools/create-price-alert";
+import { getStoreOffers } from "@/lib/tools/get-store-offers";
+import {
+	createSearchProductsTool,
+	searchProducts,
+} from "@/lib/tools/search-products";
+import { appendResponseMessages, streamText } from "ai";
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 60;
 
 export async function POST(req: Request) {
-	// Get user information for rate limiting
-	const ip = req.headers.get("x-forwarded-for") ?? "anonymous";
-	const userAgent = req.headers.get("user-agent") ?? "unknown";
+	// Logged-in users and partners send an API key, which sets their tier
+	const apiKey = getApiKeyFromRequest(req);
+	const key = apiKey ? await resolveApiKey(apiKey) : null;
+
+	if (apiKey && !key) {
+		return jsonError(401, "Invalid API key", "The API key is not valid.");
+	}
+
+	const identity = await resolveClientIdentity(req);
 
-	// Create a hash from IP and user agent for rate limiting
-	const identifier = `${ip}:${userAgent}`;
+	if (identity.access === "deny") {
+		return jsonError(403, "Forbidden", "Access from this address is blocked.");
+	}
+
+	// Keyed callers share a bucket per key, anonymous ones per session or IP,
+	// and every anonymous request also counts against its IP
+	const identifier = key ? `key:${key.id}` : identity.key;
+	const tier = key?.tier ?? "anonymous";
+	const rateLimitSubject: RateLimitSubject = {
+		identifier,
+		tier,
+		ip: identity.ip,
+	};
 
-	// Apply rate limiting
-	const { success, limit, reset, remaining, pending } =
-		await ratelimit.limit(identifier);
+	// Apply rate limiting, allow-listed IPs skip it
+	const rateLimit =
+		identity.access === "allow" ? null : await checkRateLimit(rateLimitSubject);
 
 	// Ensure rate limit operations complete in serverless environment
 	// @ts-ignore - Vercel specific API
-	if (pending && req.waitUntil) {
+	if (rateLimit?.pending && req.waitUntil) {
 		// @ts-ignore - Vercel specific API
-		req.waitUntil(pending);
+		req.waitUntil(rateLimit.pending);
 	}
 
 	// If rate limit exceeded, return 429 Too Many Requests
-	if (!success) {
-		return new Response(
-			JSON.stringify({
-				error: "Too many requests",
-				message: "You've reached the maximum number of requests allowed.",
-				limit,
-				remaining,
-				reset: new Date(reset).toISOString(),
-				resetSeconds: Math.ceil((reset - Date.now()) / 1000),
-			}),
-			{
-				status: 429,
-				headers: {
-					"Content-Type": "application/json",
-					"X-RateLimit-Limit": limit.toString(),
-					"X-RateLimit-Remaining": remaining.toString(),
-					"X-RateLimit-Reset": new Date(reset).toISOString(),
-				},
-			},
-		);
+	if (rateLimit && !rateLimit.success) {
+		return rateLimitExceeded(rateLimit);
 	}
 
-	const { messages } = await req.json();
-
-	const result = streamText({
-		model: openai("gpt-4o"),
-		messages,
-		system: `
-You are a smart product recommendation assistant for Compy, a platform that helps people in Peru make smarter shopping decisions.
-
-Your assistant identity is **Compita** 🧠, a friendly and helpful guide created by Compy to help users in Peru make smart purchasing decisions.
-
-Always introduce yourself as Compita at the beginning of a new interaction or product recommendation. Example:
-
-"Hola, soy Compita, tu asistente de compras de Compy 🤖. Estoy aquí para ayudarte a encontrar el mejor producto según tus necesidades y al mejor precio posible."
-
-Compita understands user needs, recommends the best options, and uses up-to-date data from Compy's platform to explain whether it's a good time to buy based on historical prices.
-
-Compita is not a seller — its job is to compare, inform, and guide.
-
-Always keep your tone helpful, clear, and a little conversational, especially when talking directly to the user.
-
-Your **main goals** are:
-1. **Act as a personal shopping advisor**, helping users figure out what product suits them best based on their needs.
-2. **Inform users with historical price data**, so they know if it's a good time to buy.
-
----
-
-## 🧠 RESPONSE LOGIC
-
-Before responding, analyze the user's intent:
-
-- If they ask for a **specific product**, fetch matching results and show historical price insights, store availability, and buying advice.
-- If they seem unsure or don't mention a specific product:
-  - Ask questions to **understand their needs** (e.g. usage, budget, brand preferences).
-  - Then suggest products tailored to those needs with justification.
-
----
-
-## 🔍 SEARCH & RESPONSE FORMAT
-
-Use the \`searchProducts\` tool to find products in Peru.
-
-If no products are found, suggest using different terms or clarify what the user is looking for.
-
-Format all responses using **Markdown**:
-1. First, present each product individually with:
-   - Full name (model, capacity, variant)
-   - Current price
-   - RAM (if applicable)
-   - Key features or what's included (e.g. charger, case, etc.)
-   - Availability (list of stores)
-- Use markdown image syntax: \`![](image_url)\`
-- Include "View on Compy" links at the end using metadata.product_url:
-  \`[View on Compy](https://www.compy.pe/...)\`
-
-2. After individual product descriptions, include a **comparison table** following the structure defined in the "COMPARISON TABLES" section.
-
----
-
-## 💰 PRICE INFORMATION
-
-- Always include the **current price** as: \`S/ XXX.XX\`
-- If price history is available:
-  - Show **lowest recorded price**: \`Lowest recorded price: S/ XXX.XX\`
-  - Show current savings: \`Current price: S/ XXX.XX (Previous: S/ YYY.YY, Save: Z%)\`
-  - Indicate whether it's a good time to buy or not
-- If current price is **over 30% higher** than the historical minimum:
-  - Label as: 🔴 "Not a good time to buy"
-  - If it's near the lowest price ever: 🟢 "Good time to buy"
-  - Use 🟡 "Consider waiting" if uncertain
-- Include % difference from lowest price and a summary like: “Price has dropped 15% since last month”
+	const request = await parseChatRequest(req);
 
----
-
-## 📲 BUYING ADVISOR MODE
-
-If the user is not asking for a specific product:
-- Start by asking **clarifying questions**, such as:
-  - What will you use the product for? (e.g. gaming, photography, work)
-  - What's your budget?
-  - Any brand preferences or ones you'd like to avoid?
-- Then show **2–3 product suggestions** based on those needs
-- Explain **why each product fits the user**, using easy-to-understand comparisons and price history
-
----
-
-## 🔗 LINKS & AVAILABILITY
-
-- NEVER show external links. Only use Compy links from product metadata
-- Include store availability if available: "Available from X stores"
-- Mention if the product often goes on sale
-
----
-
-## 🔄 COMPARISON TABLES
-
-When showing multiple products, always include a detailed and informative Markdown table that works across all product categories.
-
-Use the following base structure:
-
-| Modelo completo | Precio actual | Especificaciones clave | Disponibilidad | Recomendación de compra |
-|-----------------|----------------|--------------------------|----------------|---------------------------|
-
-### Column definitions:
-
-- **Modelo completo**: Full product name, including brand, variant, storage/capacity or size if relevant (e.g., "iPhone 16 Pro Max 256GB - Titanio Negro", "Samsung QLED 55'' 4K Smart TV", "Laptop Lenovo 14'' i5 8GB 512GB SSD")
-- **Precio actual**: Format as "S/ XXXX.XX"
-- **Especificaciones clave**: This should adapt to the product type:
-  - For phones: storage, RAM, display refresh rate, battery
-  - For TVs: screen size, resolution, type (e.g. Smart TV, QLED)
-  - For laptops: processor, RAM, storage
-  - For headphones: ANC, battery life, Bluetooth, type
-  - For other categories, use the most relevant specs
-- **Disponibilidad**: Number of stores or store names (e.g., "Falabella, plazaVea, Promart" or "Disponible en 3 tiendas")
-- **Recomendación de compra**: Use natural language, data-driven phrases based on price history and value, such as:
-  - "Buen momento para comprar"
-  - "Esperar mejor oferta"
-  - "Considerar esperar"
-  - "Opción premium recomendada"
-  - "Buena relación calidad/precio"
-
-✅ Always prefer complete, human-friendly recommendations over generic terms like "Comprar" or "Esperar".
+	if (!request.success) {
+		return request.response;
+	}
 
----
-## ✅ 
-DO NOT DISMISS PRODUCTS BASED ON OLD PRICE ASSUMPTIONS
+	const { id, messages } = request.data;
 
-## 🔍 TRUST TOOL DATA OVER MODEL KNOWLEDGE
+	// Conversations belong to the caller that started them
+	const callerId = getCallerId(identity, key?.id);
 
-If the user mentions a product that you believe does not exist based on your training data, still perform a search using the \`searchProducts\` tool.
+	if (isValidSessionId(id) && !(await canSaveChatSession(id, callerId))) {
+		return jsonError(
+			403,
+			"Forbidden",
+			"The conversation belongs to another user.",
+		);
+	}
 
-Only respond that the product does not exist **if the search also returns no results**.
+	// Tool data of earlier turns comes from the stored session, the history
+	// sent by the client can't be trusted
+	const session = isValidSessionId(id)
+		? await getChatSession(id, callerId)
+		: null;
 
-This is especially important for newly released products (e.g., new iPhone generations) that may have launched after your training data cutoff.
+	// Sessions are pinned to their prompt experiment variants. The caller id
+	// is already the session on the first request, unlike the rate limit key.
+	const systemPrompt = composeSystemPrompt(callerId);
 
-🟡 ALWAYS RESPOND IN THE SAME LANGUAGE AS THE USER'S QUERY. MOST USERS ARE FROM PERU, SO DEFAULT TO SPANISH.`,
+	const result = streamText({
+		model: getChatModel(tier),
+		messages,
+		system: systemPrompt.text,
+		// Links and prices in the answer must come from the tool data
+		experimental_transform: createGuardrailsTransform({
+			context: session?.guardrails,
+			attributes: { clientKey: identifier },
+		}),
 		tools: {
-			searchProducts: tool({
-				description: "Search for products in the Compy catalog",
-				parameters: z.object({
-					query: z
-						.string()
-						.describe(`The search query to find relevant products. Must be in Spanish and singular. A product like 'celular', 'laptop rtx 4060', 'televisor led 55'.
-							If the user asks something with units like inches just add the number to the query, not the unit.
-							For example: 'televisor led 55 pulgadas' should be 'televisor led 55'.
-							`),
-					priceMax: z
-						.number()
-						.optional()
-						.describe("Maximum price to filter by"),
-					priceMin: z
-						.number()
-						.optional()
-						.describe("Minimum price to filter by"),
-				}),
-				execute: async ({ query, priceMax, priceMin }) => {
-					const myHeaders = new Headers();
-					
-					// DEBUG: Ver qué valor tiene la API key
-					console.log("TYPESENSE_API_KEY:", process.env.TYPESENSE_API_KEY);
-					console.log("TYPESENSE_API_KEY length:", process.env.TYPESENSE_API_KEY?.length);
-					
-					myHeaders.append("X-TYPESENSE-API-KEY", process.env.TYPESENSE_API_KEY || "");
-
-					const requestOptions: RequestInit = {
-						method: "GET",
-						headers: myHeaders,
-						redirect: "follow"
-					};
-
-					const queryByItems = []
-
-					if (priceMax) {
-						queryByItems.push(`bestprice:<${priceMax}`);
-					}
-
-					if (priceMin) {
-						queryByItems.push(`bestprice:>${priceMin}`);
-					}
-
-					const searchParams = new URLSearchParams({
-						q: query,
-						query_by: "title_infix,combined_text",
-						query_by_weights: "3,2",
-						sort_by: "top:desc,percent_offer:desc",
-						per_page: "10"
-					});
-
-					if (queryByItems.length > 0) {
-						searchParams.set("filter_by", queryByItems.join("&&"));
-					}
-
-					const response = await fetch(`https://typesense2.compy.pe/collections/products/documents/search?${searchParams.toString()}`, requestOptions)
-
-					const data = await response.json();
-
-					return compressProductData(data);
-				},
+			searchProducts: identity.isAdmin
+				? createSearchProductsTool({ cache: false })
+				: searchProducts,
+			compareProducts,
+			createPriceAlert: createPriceAlertTool({
+				baseUrl: new URL(req.url).origin,
 			}),
+			getStoreOffers,
 		},
 		experimental_telemetry: {
 			isEnabled: true,
 			functionId: "compy-ai",
+			metadata: {
+				clientKey: identifier,
+				sessionId: identity.sessionId,
+				tier,
+				promptVersion: systemPrompt.version,
+				...Object.fromEntries(
+					Object.entries(systemPrompt.experiments).map(([id, version]) => [
+						`experiment.${id}`,
+						version,
+					]),
+				),
+			},
 		},
 		onError: (error) => {
-			console.error(error);
+			console.error(`[chat] ${identifier}`, error);
+		},
+		onFinish: async ({ response, steps, usage }) => {
+			try {
+				await recordTokenUsage(rateLimitSubject, usage.totalTokens);
+			} catch (error) {
+				console.error("Failed to record token usage:", error);
+			}
+
+			if (!isValidSessionId(id)) {
+				return;
+			}
+
+			const guardrails = createGuardrailContext(session?.guardrails);
+			for (const { result } of steps.flatMap((step) => step.toolResults)) {
+				addToolResult(guardrails, result);
+			}
+
+			// Losing the history must not break the reply the user already got
+			try {
+				await saveChatSession(
+					id,
+					callerId,
+					appendResponseMessages({
+						messages,
+						responseMessages: response.messages,
+					}),
+					guardrails,
+				);
+			} catch (error) {
+				console.error("Failed to save chat session:", error);
+			}
 		},
 	});
 
-	return result.toDataStreamResponse();
+	return result.toDataStreamResponse({
+		headers: {
+			...(rateLimit ? rateLimitHeaders(rateLimit) : {}),
+			...(await sessionCookieHeaders(identity)),
+		},
+	});
 }
@@ -1,7 +1,9 @@
 "use client";
 
+import { ProductCardList } from "@/components/product-card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import type { ProductSearchResult } from "@/lib/search/types";
 import { useChat } from "@ai-sdk/react";
 import type { Message as UIMessage } from "@ai-sdk/react";
 import {
@@ -10,40 +12,29 @@ import {
 	Send,
 	Sparkles,
 	Square,
+	Trash2,
 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import type { Components } from "react-markdown";
 import rehypeRaw from "rehype-raw";
 import rehypeSanitize from "rehype-sanitize";
 import remarkGfm from "remark-gfm";
 
-// Add type definitions for the product information
-interface Product {
-	id: string;
-	title: string;
-	brand: string;
-	model: string;
-	price: number | string;
-	category: string;
-	product_url: string;
-	image_url?: string;
-	color?: string;
-	capacity?: string;
-	memory?: string;
-	screen_size?: string;
-	weight?: string;
-	power?: string;
-	features_markdown?: string;
-	specifications_markdown?: string;
-	view_product_link?: string;
-}
+// localStorage key of the current conversation, resumed on reload
+const CHAT_ID_STORAGE_KEY = "compy-chat-id";
+
+// Tool results carrying products, rendered as product cards
+type ProductToolResult = Pick<ProductSearchResult, "products">;
 
-interface ChatMessage extends UIMessage {
-	toolResults?: Array<{
-		result: {
-			products: Product[];
-		};
-	}>;
+function getProductToolResults(message: UIMessage): ProductToolResult[] {
+	return (message.parts ?? []).flatMap((part) =>
+		part.type === "tool-invocation" &&
+		part.toolInvocation.state === "result" &&
+		Array.isArray(part.toolInvocation.result?.products)
+			? [part.toolInvocation.result as ProductToolResult]
+			: [],
+	);
 }
 
 // Add a new Suggestion component before the main ChatPage component
@@ -66,6 +57,7 @@ function Suggestion({ text, onClick }: Readonly<SuggestionProps>) {
 }
 
 export default function ChatPage() {
+	const [chatId, setChatId] = useState<string>();
 	const {
 		messages,
 		input,
@@ -74,10 +66,55 @@ export default function ChatPage() {
 		status,
 		stop,
 		error,
+		setMessages,
 	} = useChat({
+		id: chatId,
 		maxSteps: 3, // Allow multi-step tool calls
 	});
 
+	const startNewChat = useCallback(() => {
+		const id = crypto.randomUUID();
+		localStorage.setItem(CHAT_ID_STORAGE_KEY, id);
+		setChatId(id);
+	}, []);
+
+	// Resume the conversation stored for this browser, or start a new one
+	useEffect(() => {
+		const storedId = localStorage.getItem(CHAT_ID_STORAGE_KEY);
+
+		if (storedId) {
+			setChatId(storedId);
+		} else {
+			startNewChat();
+		}
+	}, [startNewChat]);
+
+	useEffect(() => {
+		if (!chatId) {
+			return;
+		}
+
+		fetch(`/api/chat/${chatId}`)
+			.then((response) => (response.ok ? response.json() : null))
+			.then((session) => {
+				if (session?.messages) {
+					setMessages(session.messages);
+				}
+			})
+			.catch((e) => console.error(e));
+	}, [chatId, setMessages]);
+
+	const clearChat = () => {
+		if (chatId) {
+			fetch(`/api/chat/${chatId}`, { method: "DELETE" }).catch((e) =>
+				console.error(e),
+			);
+		}
+
+		setMessages([]);
+		startNewChat();
+	};
+
 	// Function to handle suggestion clicks
 	const handleSuggestionClick = (text: string) => {
 		handleInputChange({
@@ -89,6 +126,13 @@ export default function ChatPage() {
 	const isRateLimitError =
 		error && /429|too many requests/i.test(String(error.message || ""));
 
+	// Check if the request was rejected as invalid (HTTP 400), e.g. too long
+	const invalidRequestMessage =
+		error && !isRateLimitError && error.message.includes("Invalid request")
+			? (RegExp(/"message":"([^"]+)"/).exec(error.message)?.[1] ??
+				"The request is not valid.")
+			: null;
+
 	// Get retry time from error response if available
 	const getRetrySeconds = () => {
 		if (!error) return 60; // Default to 60 seconds
@@ -201,7 +245,22 @@ export default function ChatPage() {
 
 	return (
 		<div className="mx-auto flex h-[90vh] w-full max-w-5xl flex-col p-6">
-			<h1 className="mb-6 font-bold text-2xl">Compy AI</h1>
+			<div className="mb-6 flex items-center justify-between">
+				<h1 className="font-bold text-2xl">Compy AI</h1>
+				{messages.length > 0 && (
+					<Button
+						type="button"
+						variant="ghost"
+						size="sm"
+						onClick={clearChat}
+						disabled={status === "streaming"}
+						className="gap-2 text-gray-500"
+					>
+						<Trash2 className="h-4 w-4" />
+						Nueva conversación
+					</Button>
+				)}
+			</div>
 
 			<div className="mb-6 flex-1 space-y-4 overflow-y-auto rounded-lg border bg-gray-50 p-6 shadow-sm">
 				{messages.length === 0 && (
@@ -213,7 +272,7 @@ export default function ChatPage() {
 					</div>
 				)}
 
-				{messages.map((message: ChatMessage) => (
+				{messages.map((message) => (
 					<div
 						key={message.id}
 						className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
@@ -225,6 +284,12 @@ export default function ChatPage() {
 									: "bg-white text-black"
 							}`}
 						>
+							{getProductToolResults(message).map((toolResult, index) => (
+								<ProductCardList
+									key={`${message.id}-products-${index}`}
+									products={toolResult.products}
+								/>
+							))}
 							{message.content ? (
 								<div className="prose prose-sm max-w-none overflow-x-auto">
 									<ReactMarkdown
@@ -346,6 +411,17 @@ export default function ChatPage() {
 						</p>
 					</div>
 				)}
+
+				{/* Invalid request notification */}
+				{invalidRequestMessage && (
+					<div className="mt-2 rounded-md bg-red-50 p-3 text-red-600 shadow-sm">
+						<div className="font-medium">Message not sent</div>
+						<p className="mt-1 text-sm">
+							{invalidRequestMessage} You can start a new conversation to keep
+							going.
+						</p>
+					</div>
+				)}
 			</div>
 		</div>
 	);
@@ -0,0 +1,107 @@
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import type { BuyVerdict } from "@/lib/price-insight";
+import type { ProductResult } from "@/lib/search/types";
+import { cn } from "@/lib/utils";
+import { ExternalLink } from "lucide-react";
+
+const verdictStyles: Record<BuyVerdict, string> = {
+	good: "bg-green-100 text-green-800",
+	wait: "bg-yellow-100 text-yellow-800",
+	bad: "bg-red-100 text-red-800",
+	unknown: "bg-gray-100 text-gray-600",
+};
+
+// insight.label is written for the model, the card shows its own Spanish text
+const verdictLabels: Record<BuyVerdict, string> = {
+	good: "🟢 Buen momento para comprar",
+	wait: "🟡 Considera esperar",
+	bad: "🔴 No es buen momento para comprar",
+	unknown: "⚪ Sin historial de precios",
+};
+
+interface ProductCardProps {
+	product: ProductResult;
+}
+
+export function ProductCard({ product }: Readonly<ProductCardProps>) {
+	const { insight } = product;
+
+	return (
+		<Card className="flex h-full flex-col shadow-sm">
+			{product.image_url && (
+				<img
+					src={product.image_url}
+					alt={product.title}
+					className="mx-auto mt-4 h-40 w-full object-contain"
+				/>
+			)}
+			<CardHeader className="px-4 pt-4">
+				<span className="text-muted-foreground text-xs uppercase">
+					{product.brand}
+				</span>
+				<CardTitle className="line-clamp-2 text-sm leading-snug">
+					{product.title}
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="flex-1 space-y-2 px-4">
+				<div className="font-bold text-lg">S/ {product.price.toFixed(2)}</div>
+				{insight.cardPrice && (
+					<div className="text-muted-foreground text-xs">
+						S/ {insight.cardPrice.price.toFixed(2)} con tarjeta{" "}
+						{insight.cardPrice.store ?? "de la tienda"}
+					</div>
+				)}
+				<div className="text-muted-foreground text-xs">
+					Disponible en {product.store_count}{" "}
+					{product.store_count === 1 ? "tienda" : "tiendas"}
+				</div>
+				<span
+					className={cn(
+						"inline-block rounded-full px-2 py-0.5 font-medium text-xs",
+						verdictStyles[insight.verdict],
+					)}
+				>
+					{verdictLabels[insight.verdict]}
+				</span>
+			</CardContent>
+			<CardFooter className="px-4 pb-4">
+				<Button variant="outline" size="sm" asChild className="w-full">
+					<a
+						href={product.product_url}
+						target="_blank"
+						rel="noopener noreferrer"
+						className="flex items-center justify-center gap-2"
+					>
+						Ver en Compy
+						<ExternalLink size={14} />
+					</a>
+				</Button>
+			</CardFooter>
+		</Card>
+	);
+}
+
+interface ProductCardListProps {
+	products: ProductResult[];
+}
+
+export function ProductCardList({ products }: Readonly<ProductCardListProps>) {
+	if (products.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="my-2 grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+			{products.map((product) => (
+				<ProductCard key={product.id} product={product} />
+			))}
+		</div>
+	);
+}
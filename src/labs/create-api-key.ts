@@ -0,0 +1,27 @@
+import {
+	RATE_LIMIT_TIERS,
+	type RateLimitTier,
+	createApiKey,
+} from "@/lib/rate-limit";
+
+// Usage: bun src/labs/create-api-key.ts <user|partner> <owner>
+async function main() {
+	const [tier, owner] = process.argv.slice(2) as [RateLimitTier, string];
+
+	if (!RATE_LIMIT_TIERS.includes(tier) || tier === "anonymous" || !owner) {
+		console.error(
+			"Usage: bun src/labs/create-api-key.ts <user|partner> <owner>",
+		);
+		process.exit(1);
+	}
+
+	const { apiKey, record } = await createApiKey(tier, owner);
+
+	console.log(`Created ${record.tier} key ${record.id} for ${record.owner}`);
+	console.log(apiKey);
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exit(1);
+});
@@ -0,0 +1,472 @@
+import {
+	type CanonicalSpecKey,
+	type NormalizedSpec,
+	SPEC_ATTRIBUTES,
+	normalizeSpecs,
+} from "@/lib/specs";
+
+// Turns catalog products into the markdown contexts and metadata embedded in
+// the vector index. Shared by generate-markdown.ts and sync.ts.
+
+// The product shapes are inferred from their schemas, so what is validated is
+// what the generator can read
+import { type EnhancedProduct, type Product, isLegacyProduct } from "./schema";
+
+export type { EnhancedProduct, Product } from "./schema";
+
+export interface ProductForEmbedding {
+	id: string;
+	metadata: {
+		title: string;
+		brand: string;
+		model: string;
+		price: number;
+		category_level1: string;
+		category_level2: string;
+		category_level3: string;
+		image_url: string;
+		product_url: string;
+		color?: string;
+		capacity?: string;
+		memory?: string;
+		screen_size?: string;
+		weight?: string;
+		power?: string;
+		description?: string;
+		stores?: Array<{
+			store: string;
+			price: number;
+			url: string;
+			list_price?: number;
+			price_card?: number | null;
+			stock?: number;
+		}>;
+		price_card?: number | null;
+		price_card_store?: string;
+		price_history?: {
+			current: number;
+			previous: number;
+			minimum: number;
+			percent_save?: number;
+		};
+	};
+	context: string; // Markdown content for embedding
+}
+
+// Inactive products are no longer sold and must not be recommended
+export function isActiveProduct(product: Product | EnhancedProduct): boolean {
+	return isLegacyProduct(product)
+		? product.document.active !== false
+		: product.active !== false;
+}
+
+// Canonical spec values used as embedding metadata, e.g. "8 GB" or "55 pulgadas"
+function getSpecMetadata(specs: Array<{ k: string; v: string }>) {
+	const normalizedSpecs = normalizeSpecs(specs);
+	const specValue = (key: CanonicalSpecKey) =>
+		normalizedSpecs.find((spec) => spec.key === key)?.display;
+
+	return {
+		normalizedSpecs,
+		color: specValue("color"),
+		capacity: specValue("capacity") ?? specValue("storage"),
+		memory: specValue("ram"),
+		screenSize: specValue("screen_size"),
+		weight: specValue("weight"),
+		power: specValue("power"),
+		resolution: specValue("resolution"),
+	};
+}
+
+// Summary of the canonical specs, so equal specs read the same across stores
+function formatKeySpecifications(normalizedSpecs: NormalizedSpec[]): string {
+	const knownSpecs = normalizedSpecs.filter((spec) =>
+		SPEC_ATTRIBUTES.some((attribute) => attribute.key === spec.key),
+	);
+
+	if (knownSpecs.length === 0) {
+		return "";
+	}
+
+	let markdown = "### Key Specifications\n\n";
+	for (const spec of knownSpecs) {
+		markdown += `- **${spec.label}**: ${spec.display}\n`;
+	}
+	return `${markdown}\n`;
+}
+
+// Enhanced version to handle the new product structure
+export function generateProductForEmbedding(
+	product: Product | EnhancedProduct,
+	index: number,
+): ProductForEmbedding {
+	// Handle both old and new product structures
+	if (isLegacyProduct(product)) {
+		// Original structure
+		return generateProductForEmbeddingLegacy(product, index);
+	}
+
+	// New enhanced structure
+	const {
+		_id,
+		title,
+		brand,
+		repmodel,
+		categories,
+		bestprice,
+		desc,
+		metrics,
+		url,
+		skus,
+		specs,
+		images,
+	} = product;
+
+	// Lowest card price across the stores, with the store whose card it needs
+	const cardSku = skus
+		?.filter((sku) => sku.price_card && sku.price_card < bestprice)
+		.sort((a, b) => (a.price_card ?? 0) - (b.price_card ?? 0))[0];
+	const cardPrice =
+		cardSku?.price_card ??
+		(product.price_card && product.price_card < bestprice
+			? product.price_card
+			: null);
+	const cardStore = cardSku?.store ?? product.store;
+
+	// Generate unique ID
+	const id = (_id?.$oid || url.split("/").pop()) ?? `product-${index}`;
+
+	// Collect all specs from the specs array if available
+	let allSpecs: Array<{ k: string; v: string }> = [];
+	if (specs && specs.length > 0 && specs[0].specs) {
+		allSpecs = specs[0].specs;
+	}
+
+	// Extract common metadata from specs
+	const {
+		normalizedSpecs,
+		color,
+		capacity,
+		memory,
+		screenSize,
+		weight,
+		power,
+		resolution,
+	} = getSpecMetadata(allSpecs);
+
+	// Start with product title, brand, model and price
+	let markdown = `# ${title}\n\n`;
+
+	// Add description if available
+	if (desc) {
+		markdown += `${desc}\n\n`;
+	}
+
+	markdown += `**Brand**: ${brand}\n`;
+	markdown += `**Model**: ${repmodel}\n`;
+	markdown += `**Price**: S/ ${bestprice.toFixed(2)}\n`;
+
+	if (cardPrice) {
+		markdown += `**Card Price**: S/ ${cardPrice.toFixed(2)} (${cardStore} card)\n`;
+	}
+
+	// Add price history and comparison if available
+	if (metrics) {
+		if (metrics.prev_price !== bestprice) {
+			markdown += `**Previous Price**: S/ ${metrics.prev_price.toFixed(2)}\n`;
+		}
+		if (metrics.price_minimum < bestprice) {
+			markdown += `**Lowest Price**: S/ ${metrics.price_minimum.toFixed(2)}\n`;
+		}
+		if (metrics.percent_save > 0) {
+			markdown += `**Save**: ${metrics.percent_save.toFixed(2)}%\n`;
+		}
+	}
+
+	markdown += "\n";
+
+	// Add category information
+	markdown += `**Category**: ${categories.level1} > ${categories.level2} > ${categories.level3}\n\n`;
+
+	// Add main image if available
+	const imageUrls = images && images.length > 0 ? images[0].urls : [];
+	if (imageUrls && imageUrls.length > 0) {
+		markdown += `![${title}](${imageUrls[0]})\n\n`;
+	}
+
+	// Add specifications
+	markdown += "## Specifications\n\n";
+	markdown += formatKeySpecifications(normalizedSpecs);
+
+	// Filter important specifications by grouping them into categories
+	const technicalSpecs = allSpecs.filter((spec) =>
+		[
+			"resolución",
+			"tecnología",
+			"sistema operativo",
+			"procesador",
+			"pantalla",
+			"memoria",
+		].some((key) => spec.k.toLowerCase().includes(key.toLowerCase())),
+	);
+
+	const connectivitySpecs = allSpecs.filter((spec) =>
+		["hdmi", "usb", "conexión", "puerto", "bluetooth", "wifi"].some((key) =>
+			spec.k.toLowerCase().includes(key.toLowerCase()),
+		),
+	);
+
+	const physicalSpecs = allSpecs.filter((spec) =>
+		["dimensiones", "peso", "alto", "ancho", "profundidad", "color"].some(
+			(key) => spec.k.toLowerCase().includes(key.toLowerCase()),
+		),
+	);
+
+	const generalSpecs = allSpecs.filter(
+		(spec) =>
+			!technicalSpecs.includes(spec) &&
+			!connectivitySpecs.includes(spec) &&
+			!physicalSpecs.includes(spec),
+	);
+
+	// Function to add specs to markdown
+	const addSpecsSection = (
+		sectionTitle: string,
+		sectionSpecs: Array<{ k: string; v: string }>,
+	) => {
+		if (sectionSpecs.length > 0) {
+			markdown += `### ${sectionTitle}\n\n`;
+			markdown += "| Specification | Value |\n";
+			markdown += "| ------------- | ----- |\n";
+
+			// Sort specs alphabetically by key
+			sectionSpecs.sort((a, b) => a.k.localeCompare(b.k));
+
+			for (const spec of sectionSpecs) {
+				// Clean up value text (remove line breaks)
+				const cleanValue = spec.v.replace(/\n/g, " ");
+				markdown += `| ${spec.k} | ${cleanValue} |\n`;
+			}
+			markdown += "\n";
+		}
+	};
+
+	// Add specs by category
+	if (technicalSpecs.length > 0) {
+		addSpecsSection("Technical Specifications", technicalSpecs);
+	}
+
+	if (connectivitySpecs.length > 0) {
+		addSpecsSection("Connectivity", connectivitySpecs);
+	}
+
+	if (physicalSpecs.length > 0) {
+		addSpecsSection("Physical Characteristics", physicalSpecs);
+	}
+
+	if (generalSpecs.length > 0) {
+		addSpecsSection("Other Specifications", generalSpecs);
+	}
+
+	// Add store availability and prices
+	if (skus && skus.length > 0) {
+		markdown += "## Available at\n\n";
+		markdown += "| Store | Price | Card Price | Stock |\n";
+		markdown += "| ----- | ----- | ---------- | ----- |\n";
+
+		// Sort by price
+		const sortedSkus = [...skus].sort((a, b) => a.bestprice - b.bestprice);
+
+		for (const sku of sortedSkus) {
+			const cardPrice = sku.price_card
+				? `S/ ${sku.price_card.toFixed(2)}`
+				: "N/A";
+			markdown += `| [${sku.store}](${sku.url}) | S/ ${sku.bestprice.toFixed(2)} | ${cardPrice} | ${sku.stock ?? "N/A"} |\n`;
+		}
+		markdown += "\n";
+	}
+
+	// Add additional images if available
+	if (imageUrls && imageUrls.length > 1) {
+		markdown += "## Additional Images\n\n";
+		for (let i = 1; i < Math.min(imageUrls.length, 5); i++) {
+			markdown += `![${title} - Image ${i + 1}](${imageUrls[i]})\n\n`;
+		}
+	}
+
+	// Add product URL
+	markdown += `**View product**: [${title}](${url})\n`;
+
+	// Store information for multiple stores
+	const storeInfo =
+		skus?.map((sku) => ({
+			store: sku.store,
+			price: sku.bestprice,
+			url: sku.url,
+			list_price: sku.price,
+			price_card: sku.price_card ?? null,
+			...(sku.stock !== undefined && { stock: sku.stock }),
+		})) || [];
+
+	// Create the product object with metadata and context
+	return {
+		id,
+		metadata: {
+			title,
+			brand,
+			model: repmodel,
+			price: bestprice,
+			category_level1: categories.level1,
+			category_level2: categories.level2,
+			category_level3: categories.level3,
+			image_url: imageUrls && imageUrls.length > 0 ? imageUrls[0] : "",
+			product_url: url,
+			description: desc ?? undefined,
+			stores: storeInfo,
+			...(cardPrice && {
+				price_card: cardPrice,
+				price_card_store: cardStore,
+			}),
+			price_history: metrics
+				? {
+						current: bestprice,
+						previous: metrics.prev_price,
+						minimum: metrics.price_minimum,
+						percent_save: metrics.percent_save,
+					}
+				: undefined,
+			...(color && { color }),
+			...(capacity && { capacity }),
+			...(memory && { memory }),
+			...(screenSize && { screen_size: screenSize }),
+			...(weight && { weight }),
+			...(power && { power }),
+			...(resolution && { resolution }),
+		},
+		context: markdown,
+	};
+}
+
+// Original function for backward compatibility
+function generateProductForEmbeddingLegacy(
+	product: Product,
+	index: number,
+): ProductForEmbedding {
+	const { document } = product;
+	const {
+		title,
+		brand,
+		repmodel,
+		categories,
+		specs,
+		bestprice,
+		images,
+		url_compy,
+	} = document;
+
+	// Generate unique ID
+	const id = url_compy.split("/").pop() ?? `product-${index}`;
+
+	// Extract common metadata from specs
+	const {
+		normalizedSpecs,
+		color,
+		capacity,
+		memory,
+		screenSize,
+		weight,
+		power,
+	} = getSpecMetadata(specs);
+
+	// Start with product title, brand, model and price
+	let markdown = `# ${title}\n\n`;
+	markdown += `**Brand**: ${brand}\n`;
+	markdown += `**Model**: ${repmodel}\n`;
+	markdown += `**Price**: S/ ${bestprice.toFixed(2)}\n\n`;
+
+	// Add category information
+	markdown += `**Category**: ${categories.level1} > ${categories.level2} > ${categories.level3}\n\n`;
+
+	// Add main image if available
+	if (images && images.length > 0) {
+		markdown += `![${title}](${images[0]})\n\n`;
+	}
+
+	// Add specifications
+	markdown += "## Specifications\n\n";
+	markdown += formatKeySpecifications(normalizedSpecs);
+
+	// Filter important specifications
+	const importantSpecKeys = [
+		"Capacidad",
+		"Potencia",
+		"Color",
+		"Material",
+		"Garantía",
+		"Características",
+		"Modelo",
+		"Marca",
+		"Tipo de Producto",
+		"Uso",
+		"Capacidad de lavado",
+		"Memoria RAM",
+		"Memoria interna",
+		"Procesador",
+		"Tamaño pantalla",
+		"Resolución",
+		"Sistema operativo",
+		"Tecnología",
+		"Peso",
+		"Dimensiones",
+	];
+
+	// Group specs by importance
+	const criticalSpecs = specs.filter((spec) =>
+		importantSpecKeys.some((key) =>
+			spec.k.toLowerCase().includes(key.toLowerCase()),
+		),
+	);
+
+	// Sort specs alphabetically by key
+	criticalSpecs.sort((a, b) => a.k.localeCompare(b.k));
+
+	// Add specs in a table format
+	if (criticalSpecs.length > 0) {
+		markdown += "| Specification | Value |\n";
+		markdown += "| ------------- | ----- |\n";
+
+		for (const spec of criticalSpecs) {
+			// Clean up value text (remove line breaks)
+			const cleanValue = spec.v.replace(/\n/g, " ");
+			markdown += `| ${spec.k} | ${cleanValue} |\n`;
+		}
+	} else {
+		markdown += "No detailed specifications available.\n";
+	}
+
+	// Add Compy URL
+	markdown += `\n**View product**: [${title}](${url_compy})\n`;
+
+	// Create the product object with metadata and context
+	return {
+		id,
+		metadata: {
+			title,
+			brand,
+			model: repmodel,
+			price: bestprice,
+			category_level1: categories.level1,
+			category_level2: categories.level2,
+			category_level3: categories.level3,
+			image_url: images && images.length > 0 ? images[0] : "",
+			product_url: url_compy,
+			...(color && { color }),
+			...(capacity && { capacity }),
+			...(memory && { memory }),
+			...(screenSize && { screen_size: screenSize }),
+			...(weight && { weight }),
+			...(power && { power }),
+		},
+		context: markdown,
+	};
+}
@@ -0,0 +1,119 @@
+export interface EvalCase {
+	id: string;
+	// Language of the user, the answer must match it
+	language: "es" | "en";
+	messages: Array<{ role: "user" | "assistant"; content: string }>;
+	// What a sensible first searchProducts call looks like
+	expectedSearch?: {
+		// Terms the query must contain, accent and case insensitive
+		terms: string[];
+		priceMin?: number;
+		priceMax?: number;
+		brands?: string[];
+	};
+	// Tool calls the scripted mock model makes before answering
+	script: Array<{ toolName: string; args: Record<string, unknown> }>;
+}
+
+// Golden conversations, written against the memory fixture catalog
+export const EVAL_CASES: EvalCase[] = [
+	{
+		id: "es-tv-screen-size",
+		language: "es",
+		messages: [{ role: "user", content: "Busco un televisor de 55 pulgadas" }],
+		expectedSearch: { terms: ["televisor"] },
+		script: [
+			{
+				toolName: "searchProducts",
+				args: {
+					query: "televisor 55",
+					features: [{ key: "screen_size", equals: 55 }],
+				},
+			},
+		],
+	},
+	{
+		id: "es-fridge-budget",
+		language: "es",
+		messages: [
+			{
+				role: "user",
+				content: "Quiero una refrigeradora por menos de 2000 soles",
+			},
+		],
+		expectedSearch: { terms: ["refrigeradora"], priceMax: 2000 },
+		script: [
+			{
+				toolName: "searchProducts",
+				args: { query: "refrigeradora", priceMax: 2000 },
+			},
+		],
+	},
+	{
+		id: "es-phone-brand",
+		language: "es",
+		messages: [{ role: "user", content: "¿Qué celulares Samsung hay?" }],
+		expectedSearch: { terms: ["celular"], brands: ["samsung"] },
+		script: [
+			{
+				toolName: "searchProducts",
+				args: { query: "celular", brands: ["Samsung"] },
+			},
+		],
+	},
+	{
+		id: "es-blender-recommendation",
+		language: "es",
+		messages: [
+			{ role: "user", content: "¿Qué licuadora Oster me recomiendas?" },
+		],
+		expectedSearch: { terms: ["licuadora"], brands: ["oster"] },
+		script: [
+			{
+				toolName: "searchProducts",
+				args: { query: "licuadora", brands: ["Oster"] },
+			},
+		],
+	},
+	{
+		id: "es-unknown-product",
+		language: "es",
+		messages: [{ role: "user", content: "Quiero el iPhone 20" }],
+		expectedSearch: { terms: ["iphone"] },
+		script: [{ toolName: "searchProducts", args: { query: "iphone 20" } }],
+	},
+	{
+		id: "es-follow-up",
+		language: "es",
+		messages: [
+			{ role: "user", content: "Hola, necesito una arrocera" },
+			{
+				role: "assistant",
+				content:
+					"Hola, soy Compita 🤖. ¿Para cuántas personas cocinas normalmente?",
+			},
+			{ role: "user", content: "Para 4 personas, algo económico" },
+		],
+		expectedSearch: { terms: ["arrocera"] },
+		script: [{ toolName: "searchProducts", args: { query: "arrocera" } }],
+	},
+	{
+		id: "en-washing-machine",
+		language: "en",
+		messages: [{ role: "user", content: "I need a washing machine" }],
+		expectedSearch: { terms: ["lavadora"] },
+		script: [{ toolName: "searchProducts", args: { query: "lavadora" } }],
+	},
+	{
+		id: "en-microwave-budget",
+		language: "en",
+		messages: [{ role: "user", content: "Show me microwaves under 500 soles" }],
+		expectedSearch: { terms: ["microondas"], priceMax: 500 },
+		script: [
+			{
+				toolName: "searchProducts",
+				args: { query: "microondas", priceMax: 500 },
+			},
+		],
+	},
+];
@@ -0,0 +1,174 @@
+import { foldText } from "@/lib/utils/text";
+import type { EvalCase } from "./cases";
+
+export interface EvalRun {
+	evalCase: EvalCase;
+	// Final assistant answer
+	text: string;
+	toolCalls: Array<{ toolName: string; args: Record<string, unknown> }>;
+	toolResults: Array<{ toolName: string; result: unknown }>;
+}
+
+export interface CheckResult {
+	name: string;
+	passed: boolean;
+	detail?: string;
+}
+
+// Prices must be written exactly as S/ 1299.00
+const PRICE_FORMAT = /^S\/ \d+\.\d{2}$/;
+
+const SPANISH_WORDS = new Set(
+	"el la los las de del que y en para con por una un es este esta tu te".split(
+		" ",
+	),
+);
+const ENGLISH_WORDS = new Set(
+	"the and is for with of to you your are this these in it an".split(" "),
+);
+
+function searchArgs(run: EvalRun): CheckResult {
+	const expected = run.evalCase.expectedSearch;
+	const call = run.toolCalls.find(
+		(toolCall) => toolCall.toolName === "searchProducts",
+	);
+
+	if (!expected) {
+		return { name: "search_args", passed: true };
+	}
+
+	if (!call) {
+		return {
+			name: "search_args",
+			passed: false,
+			detail: "searchProducts was not called",
+		};
+	}
+
+	const problems: string[] = [];
+	const query = foldText(String(call.args.query ?? ""));
+
+	for (const term of expected.terms) {
+		if (!query.includes(foldText(term))) {
+			problems.push(`query "${query}" misses "${term}"`);
+		}
+	}
+
+	for (const key of ["priceMin", "priceMax"] as const) {
+		if (expected[key] !== undefined && call.args[key] !== expected[key]) {
+			problems.push(`${key} is ${call.args[key]}, expected ${expected[key]}`);
+		}
+	}
+
+	const brands = ((call.args.brands as string[] | undefined) ?? []).map(
+		foldText,
+	);
+	for (const brand of expected.brands ?? []) {
+		if (!brands.includes(foldText(brand))) {
+			problems.push(`brands miss "${brand}"`);
+		}
+	}
+
+	return {
+		name: "search_args",
+		passed: problems.length === 0,
+		detail: problems.join("; ") || undefined,
+	};
+}
+
+function priceFormat(run: EvalRun): CheckResult {
+	const prices = run.text.match(/S\/\s*[\d.,]+\d/g) ?? [];
+	const invalid = [
+		...prices.filter((price) => !PRICE_FORMAT.test(price)),
+		// Prices written any other way, e.g. "1500 soles" or "$ 300"
+		...(run.text.match(/\d[\d.,]*\s*soles\b|\$\s?\d[\d.,]*/gi) ?? []),
+	];
+
+	return {
+		name: "price_format",
+		passed: invalid.length === 0,
+		detail: invalid.length > 0 ? `invalid: ${invalid.join(", ")}` : undefined,
+	};
+}
+
+function compyLinksOnly(run: EvalRun): CheckResult {
+	const urls = run.text.match(/https?:\/\/[^\s)\]>"']+/g) ?? [];
+	const external = urls.filter((url) => {
+		try {
+			const { hostname } = new URL(url);
+			return hostname !== "compy.pe" && !hostname.endsWith(".compy.pe");
+		} catch {
+			return true;
+		}
+	});
+
+	return {
+		name: "compy_links_only",
+		passed: external.length === 0,
+		detail:
+			external.length > 0 ? `external: ${external.join(", ")}` : undefined,
+	};
+}
+
+function comparisonTable(run: EvalRun): CheckResult {
+	const productCount = run.toolResults
+		.filter(({ toolName }) => toolName === "searchProducts")
+		.reduce((count, { result }) => {
+			const products = (result as { products?: unknown[] })?.products;
+			return count + (Array.isArray(products) ? products.length : 0);
+		}, 0);
+
+	if (productCount < 2) {
+		return { name: "comparison_table", passed: true };
+	}
+
+	const hasTable = /^\|.*\|[ \t]*\n\|[\s:|-]+\|/m.test(run.text);
+
+	return {
+		name: "comparison_table",
+		passed: hasTable,
+		detail: hasTable
+			? undefined
+			: `${productCount} products shown without a table`,
+	};
+}
+
+/**
+ * Guesses the language of the prose (tables are left out, product titles are
+ * Spanish) by counting common function words
+ */
+export function detectLanguage(text: string): "es" | "en" {
+	const words = foldText(
+		text
+			.split("\n")
+			.filter((line) => !line.startsWith("|"))
+			.join(" "),
+	).split(/[^a-z]+/);
+
+	const spanish = words.filter((word) => SPANISH_WORDS.has(word)).length;
+	const english = words.filter((word) => ENGLISH_WORDS.has(word)).length;
+
+	return english > spanish ? "en" : "es";
+}
+
+function responseLanguage(run: EvalRun): CheckResult {
+	const language = detectLanguage(run.text);
+
+	return {
+		name: "response_language",
+		passed: language === run.evalCase.language,
+		detail:
+			language === run.evalCase.language
+				? undefined
+				: `answered in ${language}, expected ${run.evalCase.language}`,
+	};
+}
+
+// Rules from the system prompt, checked on every case
+export const CHECKS: Array<(run: EvalRun) => CheckResult> = [
+	searchArgs,
+	priceFormat,
+	compyLinksOnly,
+	comparisonTable,
+	responseLanguage,
+];
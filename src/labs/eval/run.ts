@@ -0,0 +1,126 @@
+import { writeFileSync } from "node:fs";
+import { createModel } from "@/lib/models";
+import { composeSystemPrompt } from "@/lib/prompts";
+import { compareProducts } from "@/lib/tools/compare-products";
+import { getStoreOffers } from "@/lib/tools/get-store-offers";
+import { createSearchProductsTool } from "@/lib/tools/search-products";
+import { streamText } from "ai";
+import { EVAL_CASES, type EvalCase } from "./cases";
+import { CHECKS, type CheckResult, type EvalRun } from "./checks";
+import { createScriptedModel } from "./scripted-model";
+
+// Usage: bun src/labs/eval/run.ts [--model scripted|<provider:model>] [--case <id>] [--out report.json]
+//
+// The scripted model runs offline against the fixture catalog; pass a real
+// model (e.g. openai:gpt-4o or local:qwen2.5) to evaluate prompt changes.
+// The scripted model replays the tool calls written in the cases, so its
+// search_args check is only a sanity check of the fixtures.
+
+interface EvalReport {
+	model: string;
+	promptVersion: string;
+	score: number;
+	cases: Array<{ id: string; score: number; checks: CheckResult[] }>;
+}
+
+function getArg(name: string): string | undefined {
+	const index = process.argv.indexOf(`--${name}`);
+	return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+async function runCase(evalCase: EvalCase, model: string): Promise<EvalRun> {
+	const result = streamText({
+		model:
+			model === "scripted" ? createScriptedModel(evalCase) : createModel(model),
+		system: composeSystemPrompt(`eval:${evalCase.id}`).text,
+		messages: evalCase.messages,
+		// Live results, so the report only changes when code or data does. The
+		// vector index holds the live catalog, not the fixtures, so semantic
+		// search only runs against a real backend.
+		tools: {
+			searchProducts: createSearchProductsTool({
+				cache: false,
+				semantic: process.env.SEARCH_PROVIDER !== "memory",
+			}),
+			compareProducts,
+			getStoreOffers,
+		},
+		maxSteps: 3,
+	});
+
+	await result.consumeStream();
+	const steps = await result.steps;
+
+	return {
+		evalCase,
+		text: await result.text,
+		toolCalls: steps.flatMap((step) =>
+			step.toolCalls.map(({ toolName, args }) => ({ toolName, args })),
+		),
+		toolResults: steps.flatMap((step) =>
+			step.toolResults.map(({ toolName, result }) => ({ toolName, result })),
+		),
+	};
+}
+
+async function main() {
+	// Run against the fixture catalog unless another backend is configured
+	process.env.SEARCH_PROVIDER ??= "memory";
+
+	const model = getArg("model") ?? "scripted";
+	const caseId = getArg("case");
+	const cases = EVAL_CASES.filter(({ id }) => !caseId || id === caseId);
+
+	const report: EvalReport = {
+		model,
+		promptVersion: composeSystemPrompt("eval").version,
+		score: 0,
+		cases: [],
+	};
+
+	for (const evalCase of cases) {
+		const run = await runCase(evalCase, model);
+		const checks = CHECKS.map((check) => check(run)).map((check) =>
+			model === "scripted" && check.name === "search_args"
+				? { ...check, name: "search_args (fixture sanity check)" }
+				: check,
+		);
+		const passed = checks.filter((check) => check.passed).length;
+
+		report.cases.push({
+			id: evalCase.id,
+			score: round(passed / checks.length),
+			checks,
+		});
+	}
+
+	report.score = round(
+		report.cases.reduce((sum, { score }) => sum + score, 0) /
+			Math.max(report.cases.length, 1),
+	);
+
+	console.log(`Model: ${report.model} | Prompt: ${report.promptVersion}\n`);
+	console.log("| Case | Score | Failed checks |");
+	console.log("|---|---|---|");
+	for (const { id, score, checks } of report.cases) {
+		const failed = checks
+			.filter((check) => !check.passed)
+			.map((check) => `${check.name}: ${check.detail}`)
+			.join("; ");
+		console.log(`| ${id} | ${score} | ${failed} |`);
+	}
+	console.log(`\nTotal score: ${report.score}`);
+
+	const out = getArg("out");
+	if (out) {
+		writeFileSync(out, `${JSON.stringify(report, null, "\t")}\n`);
+		console.log(`Report written to ${out}`);
+	}
+}
+
+main().catch((error) => {
+	console.error("Error running evals:", error);
+	process.exit(1);
+});
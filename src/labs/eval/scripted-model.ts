@@ -0,0 +1,137 @@
+import type { LanguageModelV1, LanguageModelV1StreamPart } from "ai";
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV1 } from "ai/test";
+import type { EvalCase } from "./cases";
+
+interface TableProduct {
+	title: string;
+	price: string;
+	verdict: string;
+	stores: string;
+}
+
+/**
+ * Reads the products back from the markdown tables of the tool results, the
+ * same text the real model gets. A change to that format shows up as failed
+ * checks instead of passing silently.
+ */
+function parseProductTables(toolTexts: string[]): TableProduct[] {
+	return toolTexts.flatMap((text) => {
+		const rows = text
+			.split("\n")
+			.filter((line) => line.startsWith("|") && !/^\|[\s|:-]+\|$/.test(line))
+			.map((line) =>
+				line
+					.slice(1, -1)
+					.split("|")
+					.map((cell) => cell.trim()),
+			);
+		const [header, ...products] = rows;
+		const column = (name: string) => header?.indexOf(name) ?? -1;
+
+		if (!header || column("Title") < 0 || column("Price") < 0) {
+			return [];
+		}
+
+		return products.map((cells) => ({
+			title: cells[column("Title")],
+			price: cells[column("Price")],
+			verdict: cells[column("Verdict")] ?? "",
+			stores: cells[column("Stores")] ?? "",
+		}));
+	});
+}
+
+function writeAnswer(language: EvalCase["language"], toolTexts: string[]) {
+	const products = parseProductTables(toolTexts).slice(0, 3);
+	const es = language === "es";
+
+	if (products.length === 0) {
+		return es
+			? "No encontré productos para tu búsqueda. ¿Quieres que pruebe con otros términos?"
+			: "I couldn't find products for your search. Should I try other terms?";
+	}
+
+	const storeCount = (product: TableProduct) =>
+		product.stores.split(",").filter(Boolean).length;
+
+	let answer = es
+		? "Estos son los productos que encontré para ti:\n\n"
+		: "These are the products I found for you:\n\n";
+
+	for (const product of products) {
+		answer += `### ${product.title}\n`;
+		answer += es
+			? `- Precio actual: ${product.price}\n- ${product.verdict}\n- Disponible en ${storeCount(product)} tiendas\n\n`
+			: `- Current price: ${product.price}\n- ${product.verdict}\n- Available from ${storeCount(product)} stores\n\n`;
+	}
+
+	if (products.length > 1) {
+		answer += es
+			? "| Modelo completo | Precio actual | Disponibilidad | Recomendación de compra |\n"
+			: "| Model | Current price | Availability | Buying advice |\n";
+		answer += "|---|---|---|---|\n";
+
+		for (const product of products) {
+			answer += `| ${product.title} | ${product.price} | ${storeCount(product)} | ${product.verdict} |\n`;
+		}
+	}
+
+	return answer;
+}
+
+/**
+ * A mock model that plays the case script: it makes the scripted tool calls
+ * one step at a time, then answers from the tool results following the
+ * prompt rules. Runs offline and deterministically.
+ */
+export function createScriptedModel(evalCase: EvalCase): LanguageModelV1 {
+	return new MockLanguageModelV1({
+		provider: "eval",
+		modelId: "scripted",
+		doStream: async ({ prompt }) => {
+			const toolResults = prompt.flatMap((message) =>
+				message.role === "tool" ? message.content : [],
+			);
+			const step = toolResults.length;
+			const usage = { promptTokens: 0, completionTokens: 0 };
+			const chunks: LanguageModelV1StreamPart[] = [];
+
+			if (step < evalCase.script.length) {
+				const { toolName, args } = evalCase.script[step];
+				chunks.push(
+					{
+						type: "tool-call",
+						toolCallType: "function",
+						toolCallId: `call-${step}`,
+						toolName,
+						args: JSON.stringify(args),
+					},
+					{ type: "finish", finishReason: "tool-calls", usage },
+				);
+			} else {
+				const toolTexts = toolResults.map(
+					(result) =>
+						result.content?.find((part) => part.type === "text")?.text ??
+						JSON.stringify(result.result),
+				);
+				chunks.push(
+					{
+						type: "text-delta",
+						textDelta: writeAnswer(evalCase.language, toolTexts),
+					},
+					{ type: "finish", finishReason: "stop", usage },
+				);
+			}
+
+			return {
+				stream: simulateReadableStream({
+					chunks,
+					initialDelayInMs: null,
+					chunkDelayInMs: null,
+				}),
+				rawCall: { rawPrompt: prompt, rawSettings: {} },
+			};
+		},
+	});
+}
@@ -0,0 +1,297 @@
+import { once } from "node:events";
+import { type WriteStream, createReadStream, createWriteStream } from "node:fs";
+
+// Streaming building blocks for the catalog ingestion scripts, so exports of
+// any size are processed with bounded memory.
+
+export type RecordResult =
+	| { index: number; record: unknown }
+	| { index: number; error: Error };
+
+export interface IngestFailure {
+	// Position of the record in the input, starting at 0
+	index: number;
+	id?: string;
+	error: string;
+}
+
+// Failures kept for the final summary, the rest are only counted
+const MAX_REPORTED_FAILURES = 100;
+
+/**
+ * Splits a streamed JSON array into the raw text of its elements, tracking
+ * strings and nesting so commas and brackets inside values are ignored
+ */
+async function* splitJsonArray(
+	chunks: AsyncIterable<string>,
+): AsyncGenerator<string> {
+	let depth = 0;
+	let inString = false;
+	let escaped = false;
+	let current = "";
+
+	for await (const chunk of chunks) {
+		const elements: string[] = [];
+		let start = 0;
+
+		for (let i = 0; i < chunk.length; i++) {
+			const char = chunk[i];
+
+			if (inString) {
+				if (escaped) {
+					escaped = false;
+				} else if (char === "\\") {
+					escaped = true;
+				} else if (char === '"') {
+					inString = false;
+				}
+				continue;
+			}
+
+			if (char === '"') {
+				inString = true;
+			} else if (char === "[" || char === "{") {
+				depth++;
+
+				// The opening bracket of the array itself
+				if (depth === 1) {
+					start = i + 1;
+				}
+			} else if (char === "]" || char === "}") {
+				depth--;
+
+				if (depth === 0) {
+					elements.push(current + chunk.slice(start, i));
+					current = "";
+					start = i + 1;
+				}
+			} else if (char === "," && depth === 1) {
+				elements.push(current + chunk.slice(start, i));
+				current = "";
+				start = i + 1;
+			}
+		}
+
+		if (depth > 0) {
+			current += chunk.slice(start);
+		}
+
+		for (const element of elements) {
+			if (element.trim()) {
+				yield element;
+			}
+		}
+	}
+}
+
+/**
+ * Splits streamed NDJSON into its non-empty lines
+ */
+async function* splitLines(
+	chunks: AsyncIterable<string>,
+): AsyncGenerator<string> {
+	let buffer = "";
+
+	for await (const chunk of chunks) {
+		const lines = (buffer + chunk).split("\n");
+		buffer = lines.pop() ?? "";
+
+		for (const line of lines) {
+			if (line.trim()) {
+				yield line;
+			}
+		}
+	}
+
+	if (buffer.trim()) {
+		yield buffer;
+	}
+}
+
+/**
+ * Streams the records of a JSON array or NDJSON file, detected from its first
+ * character. A record that doesn't parse is yielded as an error instead of
+ * ending the stream. Reading only advances as records are consumed.
+ */
+export async function* readRecords(path: string): AsyncGenerator<RecordResult> {
+	const stream = createReadStream(path, { encoding: "utf8" });
+	const iterator: AsyncIterator<string> = stream[Symbol.asyncIterator]();
+	const first = await iterator.next();
+
+	if (first.done) {
+		return;
+	}
+
+	async function* chunks(): AsyncGenerator<string> {
+		yield first.value;
+
+		for (let next = await iterator.next(); !next.done; ) {
+			yield next.value;
+			next = await iterator.next();
+		}
+	}
+
+	const isArray = first.value.trimStart().startsWith("[");
+	const texts = isArray ? splitJsonArray(chunks()) : splitLines(chunks());
+	let index = 0;
+
+	try {
+		for await (const text of texts) {
+			try {
+				yield { index, record: JSON.parse(text) };
+			} catch (error) {
+				yield { index, error: error as Error };
+			}
+			index++;
+		}
+	} finally {
+		stream.destroy();
+	}
+}
+
+/**
+ * Groups a stream into batches of at most `size` items
+ */
+export async function* inBatches<T>(
+	source: AsyncIterable<T>,
+	size: number,
+): AsyncGenerator<T[]> {
+	let batch: T[] = [];
+
+	for await (const item of source) {
+		batch.push(item);
+
+		if (batch.length >= size) {
+			yield batch;
+			batch = [];
+		}
+	}
+
+	if (batch.length > 0) {
+		yield batch;
+	}
+}
+
+/**
+ * Runs a handler over batches with at most `concurrency` in flight. `push`
+ * waits while the queue is full, which holds back reading the input. The
+ * handler reports its own failures; a rejection is a bug and is rethrown.
+ */
+export function createBatchQueue<T>(
+	handler: (batch: T[]) => Promise<void>,
+	concurrency = 2,
+) {
+	const inFlight = new Set<Promise<void>>();
+
+	return {
+		async push(batch: T[]) {
+			while (inFlight.size >= concurrency) {
+				await Promise.race(inFlight);
+			}
+
+			const task = handler(batch).finally(() => inFlight.delete(task));
+			inFlight.add(task);
+		},
+
+		async drain() {
+			await Promise.all(inFlight);
+		},
+	};
+}
+
+/**
+ * Appends records to an NDJSON file, waiting for it to drain when its buffer
+ * is full. The file is only created once something is written.
+ */
+export function createNdjsonWriter(path: string) {
+	let stream: WriteStream | undefined;
+	let count = 0;
+
+	return {
+		get count() {
+			return count;
+		},
+
+		async write(record: unknown) {
+			stream ??= createWriteStream(path);
+			count++;
+
+			if (!stream.write(`${JSON.stringify(record)}\n`)) {
+				await once(stream, "drain");
+			}
+		},
+
+		async close() {
+			if (stream) {
+				stream.end();
+				await once(stream, "finish");
+			}
+		},
+	};
+}
+
+/**
+ * Counts processed and failed records, logging progress with the throughput
+ * every `every` records and a summary with the failures at the end
+ */
+export function createIngestReport(label: string, { every = 1000 } = {}) {
+	const startedAt = performance.now();
+	const failures: IngestFailure[] = [];
+	let succeeded = 0;
+	let failed = 0;
+
+	const throughput = () => {
+		const seconds = (performance.now() - startedAt) / 1000;
+		return {
+			seconds: Math.round(seconds * 10) / 10,
+			perSecond: Math.round((succeeded + failed) / Math.max(seconds, 0.001)),
+		};
+	};
+
+	const logProgress = (before: number) => {
+		const total = succeeded + failed;
+
+		if (Math.floor(before / every) !== Math.floor(total / every)) {
+			console.log(
+				`${label}: ${total} records (${throughput().perSecond} records/s)`,
+			);
+		}
+	};
+
+	return {
+		get failed() {
+			return failed;
+		},
+
+		success(count = 1) {
+			const before = succeeded + failed;
+			succeeded += count;
+			logProgress(before);
+		},
+
+		failure(index: number, error: unknown, id?: string) {
+			const before = succeeded + failed;
+			failed++;
+
+			const message = error instanceof Error ? error.message : String(error);
+			if (failures.length < MAX_REPORTED_FAILURES) {
+				failures.push({ index, id, error: message });
+			}
+
+			console.warn(
+				`${label}: record ${index}${id ? ` (${id})` : ""} failed: ${message}`,
+			);
+			logProgress(before);
+		},
+
+		summary() {
+			const { seconds, perSecond } = throughput();
+
+			console.log(
+				`${label}: ${succeeded} succeeded, ${failed} failed in ${seconds}s (${perSecond} records/s)`,
+			);
+
+			return { succeeded, failed, seconds, perSecond, failures };
+		},
+	};
+}
@@ -1,6 +1,17 @@
-import { readFileSync } from "node:fs";
 import { join } from "node:path";
-import { vectorIndex } from "@/lib/vector";
+import { getVectorIndex } from "@/lib/vector";
+import {
+	type RecordResult,
+	createBatchQueue,
+	createIngestReport,
+	inBatches,
+	readRecords,
+} from "./ingest";
+
+// Usage: bun src/labs/populate.ts [--input products.json] [--batch-size 500] [--concurrency 2]
+//
+// The input can be a JSON array or NDJSON. Products are read as the upserts
+// keep up, so memory stays bounded whatever the size of the catalog.
 
 interface ProductData {
 	id: string;
@@ -11,36 +22,89 @@ interface ProductData {
 	>;
 }
 
-async function main() {
-	const productsData = JSON.parse(
-		readFileSync(join(__dirname, "data", "products.json"), "utf8"),
+// Safe batch size below the "Exceeded max batch write limit: 1000" error
+const DEFAULT_BATCH_SIZE = 500;
+const MAX_BATCH_SIZE = 1000;
+
+function getArg(name: string): string | undefined {
+	const index = process.argv.indexOf(`--${name}`);
+	return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function isProductData(record: unknown): record is ProductData {
+	const product = record as ProductData;
+	return (
+		typeof product?.id === "string" &&
+		typeof product.context === "string" &&
+		typeof product.metadata === "object"
 	);
+}
 
-	// Format products for vector index
-	const formattedProducts = productsData.map((product: ProductData) => ({
-		id: product.id,
-		data: product.context,
-		metadata: product.metadata,
-	}));
+// Uploads every product again, src/labs/sync.ts only uploads what changed
+async function main() {
+	const inputPath = getArg("input") ?? join(__dirname, "data", "products.json");
+	const batchSize = Math.min(
+		Number(getArg("batch-size")) || DEFAULT_BATCH_SIZE,
+		MAX_BATCH_SIZE,
+	);
+	const concurrency = Number(getArg("concurrency")) || 2;
+	const report = createIngestReport("populate");
 
-	// Batch upload to avoid "Exceeded max batch write limit: 1000" error
-	const BATCH_SIZE = 500; // Safe batch size below the 1000 limit
+	// A failed batch is reported and skipped, the run goes on
+	const queue = createBatchQueue<{ index: number; product: ProductData }>(
+		async (batch) => {
+			try {
+				await getVectorIndex().upsert(
+					batch.map(({ product }) => ({
+						id: product.id,
+						data: product.context,
+						metadata: product.metadata,
+					})),
+				);
+				report.success(batch.length);
+			} catch (error) {
+				for (const { index, product } of batch) {
+					report.failure(index, error, product.id);
+				}
+			}
+		},
+		concurrency,
+	);
 
 	console.log(
-		`Uploading ${formattedProducts.length} products in batches of ${BATCH_SIZE}...`,
+		`Uploading products from ${inputPath} in batches of ${batchSize}...`,
 	);
 
-	for (let i = 0; i < formattedProducts.length; i += BATCH_SIZE) {
-		const batch = formattedProducts.slice(i, i + BATCH_SIZE);
-		console.log(
-			`Uploading batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(formattedProducts.length / BATCH_SIZE)} (${batch.length} products)...`,
-		);
-		await vectorIndex.upsert(batch);
+	for await (const results of inBatches<RecordResult>(
+		readRecords(inputPath),
+		batchSize,
+	)) {
+		const batch = [];
+
+		for (const result of results) {
+			if ("error" in result) {
+				report.failure(result.index, result.error);
+			} else if (!isProductData(result.record)) {
+				report.failure(
+					result.index,
+					new Error("Expected an object with id, context and metadata"),
+				);
+			} else {
+				batch.push({ index: result.index, product: result.record });
+			}
+		}
+
+		if (batch.length > 0) {
+			await queue.push(batch);
+		}
 	}
 
-	console.log(
-		`Successfully uploaded ${formattedProducts.length} products to vector index.`,
-	);
+	await queue.drain();
+	report.summary();
+
+	if (report.failed > 0) {
+		process.exitCode = 1;
+	}
 }
 
 main().catch((error) => {
@@ -0,0 +1,133 @@
+import { foldText } from "@/lib/utils/text";
+import { type EnhancedProduct, type Product, isLegacyProduct } from "./schema";
+
+// A price this many times above or below the historical median is an outlier
+const PRICE_OUTLIER_RATIO = 3;
+
+const UNKNOWN_CATEGORY = "Unknown";
+
+export interface CategoryQuality {
+	category: string;
+	products: number;
+	invalid: number;
+	missingImages: number;
+	noSpecs: number;
+	specValues: number;
+	// Spec values the stores left as "NO ESPECIFICA"
+	notSpecified: number;
+	zeroPrices: number;
+	priceOutliers: number;
+}
+
+// The fields the report looks at, from either product shape
+function describe(product: Product | EnhancedProduct) {
+	if (isLegacyProduct(product)) {
+		const { document } = product;
+
+		return {
+			categories: document.categories,
+			images: document.images ?? [],
+			specs: document.specs ?? [],
+			price: document.bestprice,
+			median: document.metrics?.median_hist,
+		};
+	}
+
+	return {
+		categories: product.categories,
+		images: product.images?.[0]?.urls ?? [],
+		specs: product.specs?.[0]?.specs ?? [],
+		price: product.bestprice,
+		median: product.metrics?.median_hist,
+	};
+}
+
+function categoryOf(categories?: { level1?: string; level2?: string }) {
+	return categories?.level1
+		? [categories.level1, categories.level2].filter(Boolean).join(" > ")
+		: UNKNOWN_CATEGORY;
+}
+
+function rate(count: number, total: number): string {
+	return total > 0 ? `${Math.round((count / total) * 1000) / 10}%` : "-";
+}
+
+/**
+ * Collects data-quality counters per category while a catalog is ingested
+ */
+export function createQualityReport() {
+	const categories = new Map<string, CategoryQuality>();
+
+	const get = (category: string) => {
+		let quality = categories.get(category);
+
+		if (!quality) {
+			quality = {
+				category,
+				products: 0,
+				invalid: 0,
+				missingImages: 0,
+				noSpecs: 0,
+				specValues: 0,
+				notSpecified: 0,
+				zeroPrices: 0,
+				priceOutliers: 0,
+			};
+			categories.set(category, quality);
+		}
+
+		return quality;
+	};
+
+	return {
+		add(product: Product | EnhancedProduct) {
+			const { categories, images, specs, price, median } = describe(product);
+			const quality = get(categoryOf(categories));
+
+			quality.products++;
+			quality.missingImages += images.length === 0 ? 1 : 0;
+			quality.noSpecs += specs.length === 0 ? 1 : 0;
+			quality.specValues += specs.length;
+			quality.notSpecified += specs.filter(
+				(spec) => foldText(spec.v).trim() === "no especifica",
+			).length;
+			quality.zeroPrices += price <= 0 ? 1 : 0;
+
+			if (
+				price > 0 &&
+				median &&
+				(price > median * PRICE_OUTLIER_RATIO ||
+					price < median / PRICE_OUTLIER_RATIO)
+			) {
+				quality.priceOutliers++;
+			}
+		},
+
+		// Invalid records are counted under their category when it can be read
+		addInvalid(record: unknown) {
+			const raw = record as {
+				categories?: { level1?: string; level2?: string };
+				document?: { categories?: { level1?: string; level2?: string } };
+			} | null;
+
+			get(categoryOf(raw?.document?.categories ?? raw?.categories)).invalid++;
+		},
+
+		toJSON(): CategoryQuality[] {
+			return [...categories.values()].sort((a, b) => b.products - a.products);
+		},
+
+		toMarkdown(): string {
+			let output =
+				"| Category | Products | Invalid | No image | No specs | NO ESPECIFICA | Zero price | Price outliers |\n";
+			output += "|---|---|---|---|---|---|---|---|\n";
+
+			for (const quality of this.toJSON()) {
+				const total = quality.products;
+				output += `| ${quality.category} | ${total} | ${quality.invalid} | ${rate(quality.missingImages, total)} | ${rate(quality.noSpecs, total)} | ${rate(quality.notSpecified, quality.specValues)} | ${rate(quality.zeroPrices, total)} | ${rate(quality.priceOutliers, total)} |\n`;
+			}
+
+			return output;
+		},
+	};
+}
@@ -0,0 +1,119 @@
+import { z } from "zod";
+
+// What generateProductForEmbedding relies on in each product shape, which
+// also defines their types. Unknown fields are kept, missing optional lists
+// default to empty.
+
+const priceSchema = z.number().finite().nonnegative();
+
+const categoriesSchema = z.object({
+	level1: z.string(),
+	level2: z.string(),
+	level3: z.string(),
+});
+
+const specSchema = z.object({ k: z.string(), v: z.string() });
+
+export const legacyProductSchema = z
+	.object({
+		document: z
+			.object({
+				title: z.string().min(1),
+				brand: z.string(),
+				repmodel: z.string(),
+				categories: categoriesSchema,
+				specs: z.array(specSchema).default([]),
+				bestprice: priceSchema,
+				images: z.array(z.string()).default([]),
+				url_compy: z.string().url(),
+				active: z.boolean().optional(),
+				metrics: z
+					.object({ median_hist: priceSchema.optional() })
+					.passthrough()
+					.optional(),
+			})
+			.passthrough(),
+	})
+	.passthrough();
+
+export const enhancedProductSchema = z
+	.object({
+		_id: z.object({ $oid: z.string() }).partial().optional(),
+		title: z.string().min(1),
+		brand: z.string(),
+		repmodel: z.string(),
+		categories: categoriesSchema,
+		bestprice: priceSchema,
+		desc: z.string().nullish(),
+		active: z.boolean().optional(),
+		url: z.string().url(),
+		store: z.string().optional(),
+		price_card: priceSchema.nullish(),
+		metrics: z
+			.object({
+				prev_price: priceSchema,
+				price_minimum: priceSchema,
+				percent_save: z.number().finite(),
+				median_hist: priceSchema.optional(),
+			})
+			.passthrough()
+			.optional(),
+		skus: z
+			.array(
+				z
+					.object({
+						store: z.string(),
+						url: z.string(),
+						price: priceSchema,
+						bestprice: priceSchema,
+						stock: z.number().optional(),
+						price_card: priceSchema.nullish(),
+					})
+					.passthrough(),
+			)
+			.default([]),
+		specs: z
+			.array(z.object({ specs: z.array(specSchema) }).passthrough())
+			.default([]),
+		images: z
+			.array(z.object({ urls: z.array(z.string()) }).passthrough())
+			.default([]),
+	})
+	.passthrough();
+
+export type Product = z.infer<typeof legacyProductSchema>;
+export type EnhancedProduct = z.infer<typeof enhancedProductSchema>;
+
+// Legacy exports wrap each product in a `document`
+export function isLegacyProduct(
+	product: Product | EnhancedProduct,
+): product is Product {
+	return "document" in product;
+}
+
+export type ValidationResult =
+	| { success: true; product: Product | EnhancedProduct }
+	| { success: false; errors: string[] };
+
+/**
+ * Validates a catalog record against the legacy or enhanced product shape,
+ * picked like generateProductForEmbedding does
+ */
+export function validateCatalogProduct(record: unknown): ValidationResult {
+	const isLegacy =
+		typeof record === "object" && record !== null && "document" in record;
+	const result = (
+		isLegacy ? legacyProductSchema : enhancedProductSchema
+	).safeParse(record);
+
+	if (!result.success) {
+		return {
+			success: false,
+			errors: result.error.issues.map(
+				(issue) => `${issue.path.join(".") || "record"}: ${issue.message}`,
+			),
+		};
+	}
+
+	return { success: true, product: result.data };
+}
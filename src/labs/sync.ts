@@ -0,0 +1,298 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { getVectorIndex, isVectorIndexConfigured } from "@/lib/vector";
+import {
+	type ProductForEmbedding,
+	generateProductForEmbedding,
+	isActiveProduct,
+} from "./embedding";
+import {
+	createBatchQueue,
+	createIngestReport,
+	createNdjsonWriter,
+	inBatches,
+	readRecords,
+} from "./ingest";
+import { createQualityReport } from "./quality";
+import { validateCatalogProduct } from "./schema";
+
+// Usage: bun src/labs/sync.ts [--input products.json] [--state sync-state.json] [--quarantine quarantine.ndjson] [--batch-size 100] [--concurrency 2] [--dry-run]
+//
+// Syncs a catalog export (JSON array or NDJSON) into the vector index: only
+// new and changed products are upserted, and products that disappeared or
+// became inactive are deleted. The state file records the content hash of
+// every product in the index and is saved after each batch, so a failed run
+// resumes where it stopped. The export is streamed, only ids and hashes are
+// kept in memory. Invalid products are quarantined and left untouched in the
+// index.
+
+const DEFAULT_BATCH_SIZE = 100;
+
+// Upstash rejects batches over 1000 vectors
+const MAX_BATCH_SIZE = 1000;
+
+// Products listed per change type in the summary
+const SAMPLE_SIZE = 5;
+
+interface SyncState {
+	hashes: Record<string, string>;
+	// Set once a run has completed. Until then, inactive products are deleted
+	// even if the state doesn't know them, in case a full populate indexed them.
+	initialized?: boolean;
+	updatedAt: string;
+}
+
+interface Change {
+	index: number;
+	product: ProductForEmbedding;
+	hash: string;
+}
+
+interface SyncSummary {
+	adds: number;
+	updates: number;
+	unchanged: number;
+	samples: { adds: string[]; updates: string[] };
+}
+
+function getArg(name: string): string | undefined {
+	const index = process.argv.indexOf(`--${name}`);
+	return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+// Covers the metadata too, so a price change alone also triggers an update
+function hashProduct(product: ProductForEmbedding): string {
+	return createHash("sha256")
+		.update(JSON.stringify([product.context, product.metadata]))
+		.digest("hex");
+}
+
+function loadState(path: string): SyncState | null {
+	return existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) : null;
+}
+
+function saveState(path: string, state: SyncState) {
+	state.updatedAt = new Date().toISOString();
+	writeFileSync(path, JSON.stringify(state, null, 2));
+}
+
+function printSummary(
+	summary: SyncSummary,
+	deletes: string[],
+	dryRun: boolean,
+) {
+	const list = (items: string[]) =>
+		items
+			.slice(0, SAMPLE_SIZE)
+			.map((item) => `\n  - ${item}`)
+			.join("");
+
+	console.log(dryRun ? "Dry run, nothing was written." : "Sync summary:");
+	console.log(`Adds: ${summary.adds}${list(summary.samples.adds)}`);
+	console.log(`Updates: ${summary.updates}${list(summary.samples.updates)}`);
+	console.log(`Deletes: ${deletes.length}${list(deletes)}`);
+	console.log(`Unchanged: ${summary.unchanged}`);
+}
+
+async function main() {
+	const inputPath =
+		getArg("input") ?? join(__dirname, "data", "tech-products.json");
+	const statePath =
+		getArg("state") ?? join(__dirname, "data", "sync-state.json");
+	const batchSize = Math.min(
+		Number(getArg("batch-size")) || DEFAULT_BATCH_SIZE,
+		MAX_BATCH_SIZE,
+	);
+	const quarantinePath =
+		getArg("quarantine") ?? join(__dirname, "data", "quarantine.ndjson");
+	const concurrency = Number(getArg("concurrency")) || 2;
+	const dryRun = process.argv.includes("--dry-run");
+
+	if (!dryRun && !isVectorIndexConfigured()) {
+		throw new Error(
+			"UPSTASH_VECTOR_REST_URL and UPSTASH_VECTOR_REST_TOKEN must be set to sync",
+		);
+	}
+
+	const state = loadState(statePath);
+	const hashes = state?.hashes ?? {};
+	const nextState: SyncState = {
+		hashes: { ...hashes },
+		initialized: state?.initialized ?? false,
+		updatedAt: "",
+	};
+
+	const report = createIngestReport("sync");
+	const quarantine = createNdjsonWriter(quarantinePath);
+	const quality = createQualityReport();
+	const summary: SyncSummary = {
+		adds: 0,
+		updates: 0,
+		unchanged: 0,
+		samples: { adds: [], updates: [] },
+	};
+	const seen = new Set<string>();
+	const inactive = new Set<string>();
+	let unreadable = 0;
+
+	// Yields the new and changed products of the export, counting the rest
+	async function* changes(): AsyncGenerator<Change> {
+		for await (const result of readRecords(inputPath)) {
+			if ("error" in result) {
+				unreadable++;
+				report.failure(result.index, result.error);
+				continue;
+			}
+
+			const validation = validateCatalogProduct(result.record);
+
+			if (!validation.success) {
+				unreadable++;
+				quality.addInvalid(result.record);
+				await quarantine.write({
+					index: result.index,
+					errors: validation.errors,
+					record: result.record,
+				});
+				report.failure(result.index, new Error(validation.errors.join("; ")));
+				continue;
+			}
+
+			const catalogProduct = validation.product;
+			let product: ProductForEmbedding;
+
+			try {
+				product = generateProductForEmbedding(catalogProduct, result.index);
+			} catch (error) {
+				unreadable++;
+				report.failure(result.index, error);
+				continue;
+			}
+
+			const { id } = product;
+
+			if (seen.has(id) || inactive.has(id)) {
+				report.failure(result.index, new Error("Duplicate product id"), id);
+				continue;
+			}
+
+			if (!isActiveProduct(catalogProduct)) {
+				inactive.add(id);
+				report.success();
+				continue;
+			}
+
+			seen.add(id);
+			quality.add(catalogProduct);
+			const hash = hashProduct(product);
+			const label = `${id} ${product.metadata.title}`;
+
+			if (!(id in hashes)) {
+				summary.adds++;
+				if (summary.samples.adds.length < SAMPLE_SIZE) {
+					summary.samples.adds.push(label);
+				}
+			} else if (hashes[id] !== hash) {
+				summary.updates++;
+				if (summary.samples.updates.length < SAMPLE_SIZE) {
+					summary.samples.updates.push(label);
+				}
+			} else {
+				summary.unchanged++;
+				report.success();
+				continue;
+			}
+
+			yield { index: result.index, product, hash };
+		}
+	}
+
+	// A failed batch stays out of the state, so the next run retries it
+	const queue = createBatchQueue<Change>(async (batch) => {
+		try {
+			await getVectorIndex().upsert(
+				batch.map(({ product }) => ({
+					id: product.id,
+					data: product.context,
+					metadata: product.metadata,
+				})),
+			);
+		} catch (error) {
+			for (const { index, product } of batch) {
+				report.failure(index, error, product.id);
+			}
+			return;
+		}
+
+		// Checkpoint: a rerun skips everything already upserted
+		for (const { product, hash } of batch) {
+			nextState.hashes[product.id] = hash;
+		}
+		saveState(statePath, nextState);
+		report.success(batch.length);
+	}, concurrency);
+
+	for await (const batch of inBatches(changes(), batchSize)) {
+		if (dryRun) {
+			report.success(batch.length);
+		} else {
+			await queue.push(batch);
+		}
+	}
+
+	await queue.drain();
+	await quarantine.close();
+
+	// A product missing from the export may just be a record that failed to
+	// parse, so nothing is deleted for being missing after read failures
+	const removed =
+		unreadable > 0 ? [] : Object.keys(hashes).filter((id) => !seen.has(id));
+	const deactivated = [...inactive].filter(
+		(id) => id in hashes || !nextState.initialized,
+	);
+	const deletes = [...new Set([...removed, ...deactivated])];
+
+	if (unreadable > 0) {
+		console.warn(
+			`${unreadable} records could not be read, products missing from the export were not deleted.`,
+		);
+	}
+
+	if (!dryRun) {
+		for (let i = 0; i < deletes.length; i += batchSize) {
+			const batch = deletes.slice(i, i + batchSize);
+
+			await getVectorIndex().delete(batch);
+
+			nextState.hashes = Object.fromEntries(
+				Object.entries(nextState.hashes).filter(([id]) => !batch.includes(id)),
+			);
+			saveState(statePath, nextState);
+		}
+
+		nextState.initialized = true;
+		saveState(statePath, nextState);
+	}
+
+	printSummary(summary, deletes, dryRun);
+	report.summary();
+
+	if (quarantine.count > 0) {
+		console.log(
+			`${quarantine.count} invalid products quarantined in: ${quarantinePath}`,
+		);
+	}
+
+	console.log("\nData quality by category:\n");
+	console.log(quality.toMarkdown());
+
+	if (report.failed > 0) {
+		process.exitCode = 1;
+	}
+}
+
+main().catch((error) => {
+	console.error("Error syncing vector index:", error);
+	process.exit(1);
+});
@@ -0,0 +1,328 @@
+import { sign, timingSafeEqual } from "@/lib/identity";
+import { formatPrice } from "@/lib/price-insight";
+import { redis } from "@/lib/redis";
+import { getSearchProvider } from "@/lib/search";
+import type { ProductDocument, SearchProvider } from "@/lib/search/types";
+import { toProductResult } from "@/lib/utils/parse-search-results";
+import { getAlertNotifier } from "./notifiers";
+import type {
+	AlertChannel,
+	AlertCondition,
+	AlertNotifier,
+	PriceAlert,
+} from "./types";
+
+export type {
+	AlertChannel,
+	AlertCondition,
+	AlertConfirmation,
+	AlertNotification,
+	AlertNotifier,
+	PriceAlert,
+} from "./types";
+
+const KEY_PREFIX = "@compy/alerts";
+const ACTIVE_ALERTS_KEY = `${KEY_PREFIX}/active`;
+const CONFIRMATION_PREFIX = `${KEY_PREFIX}/confirm`;
+const CONFIRMATION_COUNT_PREFIX = `${KEY_PREFIX}/confirmations`;
+
+// Alerts that never trigger are dropped after 90 days by default
+const DEFAULT_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+// Confirmation links stop working after two days
+const CONFIRMATION_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+// Confirmation requests a contact can receive per day, so the endpoint can't
+// be used to flood someone's inbox
+const MAX_CONFIRMATIONS_PER_DAY = 3;
+
+function alertKey(id: string): string {
+	return `${KEY_PREFIX}:${id}`;
+}
+
+function contactKey(channel: AlertChannel): string {
+	return `${channel.type}:${channel.address.toLowerCase()}`;
+}
+
+function getTtlSeconds(): number {
+	return Number(process.env.ALERT_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+}
+
+function getAlertSecret(): string {
+	const secret = process.env.ALERT_SECRET;
+
+	if (!secret) {
+		throw new Error(
+			"ALERT_SECRET is not set, unsubscribe links can't be signed",
+		);
+	}
+
+	return secret;
+}
+
+/**
+ * Link that deletes the alert, as `<id>.<signature>` so it works without a
+ * stored token and can't be forged for other alerts
+ */
+async function getUnsubscribeUrl(
+	alert: PriceAlert,
+	baseUrl: string,
+): Promise<string> {
+	const signature = await sign(`unsubscribe:${alert.id}`, getAlertSecret());
+	return `${baseUrl.replace(/\/$/, "")}/api/alerts/unsubscribe?token=${alert.id}.${signature}`;
+}
+
+export type CreateAlertResult =
+	| { status: "created"; alert: PriceAlert }
+	| { status: "not_found" }
+	| { status: "confirmation_limit" };
+
+/**
+ * Creates an alert for a product. Every alert stays pending until its contact
+ * opens the confirmation link to `baseUrl` sent for it.
+ */
+export async function createAlert(
+	input: {
+		productId: string;
+		condition: AlertCondition;
+		channel: AlertChannel;
+	},
+	{
+		baseUrl,
+		notifier = getAlertNotifier(),
+		provider = getSearchProvider(),
+	}: {
+		baseUrl: string;
+		notifier?: AlertNotifier;
+		provider?: SearchProvider;
+	},
+): Promise<CreateAlertResult> {
+	const product = await provider.getById(input.productId);
+
+	if (!product) {
+		return { status: "not_found" };
+	}
+
+	const alert: PriceAlert = {
+		id: crypto.randomUUID(),
+		productId: product.id,
+		productTitle: product.title,
+		condition: input.condition,
+		channel: input.channel,
+		createdPrice: product.bestprice,
+		baselineMinimum: Math.min(
+			product.metrics?.price_minimum ?? product.bestprice,
+			product.bestprice,
+		),
+		createdAt: new Date().toISOString(),
+	};
+	const unsubscribeUrl = await getUnsubscribeUrl(alert, baseUrl);
+
+	const countKey = `${CONFIRMATION_COUNT_PREFIX}:${contactKey(input.channel)}`;
+	const [count] = await redis
+		.pipeline()
+		.incr(countKey)
+		.expire(countKey, 24 * 60 * 60, "NX")
+		.exec<[number, number]>();
+
+	if (count > MAX_CONFIRMATIONS_PER_DAY) {
+		return { status: "confirmation_limit" };
+	}
+
+	const token = Buffer.from(
+		crypto.getRandomValues(new Uint8Array(24)),
+	).toString("base64url");
+
+	await redis.set(alertKey(alert.id), alert, { ex: getTtlSeconds() });
+	await redis.set(`${CONFIRMATION_PREFIX}:${token}`, alert.id, {
+		ex: CONFIRMATION_TTL_SECONDS,
+	});
+
+	await notifier.confirm({
+		alert,
+		confirmUrl: `${baseUrl.replace(/\/$/, "")}/api/alerts/confirm?token=${token}`,
+		unsubscribeUrl,
+		message: `Confirma tu alerta de precio para ${alert.productTitle}. Si no la pediste, ignora este mensaje.`,
+	});
+
+	return { status: "created", alert };
+}
+
+/**
+ * Confirms the alert of a confirmation link and schedules it for evaluation.
+ * Returns null when the link is unknown, expired or was already used.
+ */
+export async function confirmAlert(token: string): Promise<PriceAlert | null> {
+	const id = await redis.getdel<string>(`${CONFIRMATION_PREFIX}:${token}`);
+	const alert = id ? await getAlert(id) : null;
+
+	if (!alert) {
+		return null;
+	}
+
+	const confirmed: PriceAlert = {
+		...alert,
+		confirmedAt: new Date().toISOString(),
+	};
+
+	await redis.set(alertKey(alert.id), confirmed, { keepTtl: true });
+	await redis.sadd(ACTIVE_ALERTS_KEY, alert.id);
+
+	return confirmed;
+}
+
+/**
+ * Deletes the alert of a signed unsubscribe link. Returns null when the
+ * signature is invalid or the alert no longer exists.
+ */
+export async function unsubscribeAlert(
+	token: string,
+): Promise<PriceAlert | null> {
+	const [id, signature] = token.split(".");
+
+	if (
+		!id ||
+		!signature ||
+		!timingSafeEqual(
+			signature,
+			await sign(`unsubscribe:${id}`, getAlertSecret()),
+		)
+	) {
+		return null;
+	}
+
+	const alert = await getAlert(id);
+
+	if (!alert) {
+		return null;
+	}
+
+	await redis.srem(ACTIVE_ALERTS_KEY, alert.id);
+	await redis.del(alertKey(alert.id));
+
+	return alert;
+}
+
+export async function getAlert(id: string): Promise<PriceAlert | null> {
+	return redis.get<PriceAlert>(alertKey(id));
+}
+
+/**
+ * Checks an alert against the current product document and returns the
+ * notification message when it should fire
+ */
+export function checkAlert(
+	alert: PriceAlert,
+	product: ProductDocument,
+): string | null {
+	const price = product.bestprice;
+
+	if (alert.condition.type === "below") {
+		return price <= alert.condition.targetPrice
+			? `${alert.productTitle} bajó a ${formatPrice(price)} (tu precio objetivo era ${formatPrice(alert.condition.targetPrice)}).`
+			: null;
+	}
+
+	return product.metrics?.isminimum && price < alert.baselineMinimum
+		? `${alert.productTitle} alcanzó un nuevo precio mínimo histórico: ${formatPrice(price)} (antes ${formatPrice(alert.baselineMinimum)}).`
+		: null;
+}
+
+export interface AlertEvaluationSummary {
+	checked: number;
+	triggered: number;
+	failed: number;
+	// Active alerts whose record already expired
+	expired: number;
+}
+
+/**
+ * Re-checks every active alert through the search backend and notifies the
+ * ones that fire. Alerts are deactivated before they are sent, so a failed
+ * write can't send them twice; failed deliveries are reactivated and retried
+ * on the next run. `baseUrl` is where the unsubscribe links point to.
+ */
+export async function evaluateAlerts(
+	notifier: AlertNotifier,
+	{
+		baseUrl,
+		provider = getSearchProvider(),
+	}: { baseUrl: string; provider?: SearchProvider },
+): Promise<AlertEvaluationSummary> {
+	const summary = { checked: 0, triggered: 0, failed: 0, expired: 0 };
+	const ids = await redis.smembers(ACTIVE_ALERTS_KEY);
+
+	if (ids.length === 0) {
+		return summary;
+	}
+
+	const alerts = await redis.mget<Array<PriceAlert | null>>(
+		...ids.map(alertKey),
+	);
+
+	const expiredIds = ids.filter((_, index) => !alerts[index]);
+	if (expiredIds.length > 0) {
+		await redis.srem(ACTIVE_ALERTS_KEY, ...expiredIds);
+		summary.expired = expiredIds.length;
+	}
+
+	// Several alerts usually watch the same product, fetch each one once
+	const active = alerts.filter((alert): alert is PriceAlert => alert !== null);
+	const productIds = [...new Set(active.map((alert) => alert.productId))];
+	const products = new Map<string, ProductDocument | null>();
+
+	await Promise.all(
+		productIds.map(async (productId) => {
+			try {
+				products.set(productId, await provider.getById(productId));
+			} catch (error) {
+				console.error(`Failed to fetch product ${productId}:`, error);
+				products.set(productId, null);
+			}
+		}),
+	);
+
+	for (const alert of active) {
+		summary.checked++;
+
+		const product = products.get(alert.productId);
+		const message = product ? checkAlert(alert, product) : null;
+
+		// Alerts created before double opt-in never had their contact confirmed
+		if (!product || !message || !alert.confirmedAt) {
+			continue;
+		}
+
+		// Only the run that removes the alert from the active set sends it
+		const claimed = await redis.srem(ACTIVE_ALERTS_KEY, alert.id);
+
+		if (claimed === 0) {
+			continue;
+		}
+
+		await redis.set(
+			alertKey(alert.id),
+			{ ...alert, triggeredAt: new Date().toISOString() },
+			{ keepTtl: true },
+		);
+
+		try {
+			await notifier.notify({
+				alert,
+				price: product.bestprice,
+				productUrl: toProductResult(product).product_url,
+				unsubscribeUrl: await getUnsubscribeUrl(alert, baseUrl),
+				message,
+			});
+			summary.triggered++;
+		} catch (error) {
+			console.error(`Failed to deliver alert ${alert.id}:`, error);
+			summary.failed++;
+
+			await redis.set(alertKey(alert.id), alert, { keepTtl: true });
+			await redis.sadd(ACTIVE_ALERTS_KEY, alert.id);
+		}
+	}
+
+	return summary;
+}
@@ -0,0 +1,80 @@
+import type {
+	AlertConfirmation,
+	AlertNotification,
+	AlertNotifier,
+} from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+/**
+ * Posts each confirmation request and notification as JSON to a webhook, e.g.
+ * an automation that sends the email or WhatsApp message. `type` tells them
+ * apart.
+ */
+export function createWebhookNotifier(
+	url: string,
+	secret?: string,
+): AlertNotifier {
+	const post = async (payload: Record<string, unknown>) => {
+		const response = await fetch(url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				...(secret ? { Authorization: `Bearer ${secret}` } : {}),
+			},
+			body: JSON.stringify(payload),
+			signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+		});
+
+		if (!response.ok) {
+			throw new Error(
+				`Alert webhook failed with status ${response.status}: ${await response.text()}`,
+			);
+		}
+	};
+
+	return {
+		confirm: (confirmation) => post({ type: "confirmation", ...confirmation }),
+		notify: (notification) => post({ type: "alert", ...notification }),
+	};
+}
+
+/**
+ * Local stub that logs notifications and keeps them in memory, for
+ * development and tests
+ */
+export function createLogNotifier(): AlertNotifier & {
+	confirmations: AlertConfirmation[];
+	sent: AlertNotification[];
+} {
+	const confirmations: AlertConfirmation[] = [];
+	const sent: AlertNotification[] = [];
+
+	return {
+		confirmations,
+		sent,
+		confirm: async (confirmation) => {
+			confirmations.push(confirmation);
+			console.log(
+				`[alerts] ${confirmation.alert.channel.type}:${confirmation.alert.channel.address} ${confirmation.message} ${confirmation.confirmUrl}`,
+			);
+		},
+		notify: async (notification) => {
+			sent.push(notification);
+			console.log(
+				`[alerts] ${notification.alert.channel.type}:${notification.alert.channel.address} ${notification.message}`,
+			);
+		},
+	};
+}
+
+/**
+ * Webhook notifier when ALERT_WEBHOOK_URL is set, the log stub otherwise
+ */
+export function getAlertNotifier(): AlertNotifier {
+	const url = process.env.ALERT_WEBHOOK_URL;
+
+	return url
+		? createWebhookNotifier(url, process.env.ALERT_WEBHOOK_SECRET)
+		: createLogNotifier();
+}
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+export const alertConditionSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.literal("below"),
+		targetPrice: z.number().positive(),
+	}),
+	z.object({ type: z.literal("new_minimum") }),
+]);
+
+export const alertChannelSchema = z.discriminatedUnion("type", [
+	z.object({ type: z.literal("email"), address: z.string().email() }),
+	z.object({
+		type: z.literal("whatsapp"),
+		// Phone number with country code, e.g. +51987654321
+		address: z.string().regex(/^\+?\d{9,15}$/),
+	}),
+]);
+
+export const createAlertSchema = z.object({
+	productId: z.string().min(1),
+	condition: alertConditionSchema,
+	channel: alertChannelSchema,
+});
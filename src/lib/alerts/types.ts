@@ -0,0 +1,54 @@
+export type AlertCondition =
+	// Notify once the best price is at or below the target
+	| { type: "below"; targetPrice: number }
+	// Notify when the product reaches a new historical minimum
+	| { type: "new_minimum" };
+
+// Where the user wants to hear back; delivery is up to the notifier
+export interface AlertChannel {
+	type: "email" | "whatsapp";
+	address: string;
+}
+
+export interface PriceAlert {
+	id: string;
+	productId: string;
+	productTitle: string;
+	condition: AlertCondition;
+	channel: AlertChannel;
+	// Best price when the alert was created
+	createdPrice: number;
+	// Lowest known price when the alert was created, a new minimum must beat it
+	baselineMinimum: number;
+	createdAt: string;
+	// Set once the contact confirmed the alert, only confirmed alerts notify
+	confirmedAt?: string;
+	triggeredAt?: string;
+}
+
+export interface AlertNotification {
+	alert: PriceAlert;
+	price: number;
+	productUrl: string;
+	// Signed link that deletes the alert, included in every message
+	unsubscribeUrl: string;
+	message: string;
+}
+
+// Double opt-in: asks the contact to confirm before the alert can notify
+export interface AlertConfirmation {
+	alert: PriceAlert;
+	confirmUrl: string;
+	unsubscribeUrl: string;
+	message: string;
+}
+
+/**
+ * Delivers confirmation requests and triggered alerts. Implementations must
+ * throw when delivery fails, so a triggered alert stays active and is retried
+ * on the next evaluation.
+ */
+export interface AlertNotifier {
+	confirm(confirmation: AlertConfirmation): Promise<void>;
+	notify(notification: AlertNotification): Promise<void>;
+}
@@ -0,0 +1,121 @@
+import {
+	type GuardrailContext,
+	compactGuardrailContext,
+} from "@/lib/guardrails";
+import { redis } from "@/lib/redis";
+import type { Message } from "ai";
+
+export interface ChatSession {
+	id: string;
+	// Caller id of whoever started the conversation, see getCallerId
+	owner: string;
+	messages: Message[];
+	// Products and prices returned by the tools the server ran, never sent to
+	// clients; the guardrails trust these instead of the client's history
+	guardrails?: GuardrailContext;
+	updatedAt: string;
+}
+
+const KEY_PREFIX = "@compy/chat/session";
+
+// Conversations expire after 30 days without activity by default
+const DEFAULT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// User turns kept per conversation, older ones are dropped. Each turn is at
+// least two messages, so a resumed conversation stays under MAX_MESSAGES.
+const DEFAULT_MAX_TURNS = 40;
+
+const SESSION_ID_PATTERN = /^[\w-]{8,64}$/;
+
+function sessionKey(id: string): string {
+	return `${KEY_PREFIX}:${id}`;
+}
+
+function getTtlSeconds(): number {
+	return Number(process.env.CHAT_SESSION_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+}
+
+function getMaxTurns(): number {
+	return Number(process.env.CHAT_SESSION_MAX_TURNS) || DEFAULT_MAX_TURNS;
+}
+
+export function isValidSessionId(id: unknown): id is string {
+	return typeof id === "string" && SESSION_ID_PATTERN.test(id);
+}
+
+/**
+ * Keeps the last turns of a conversation, cutting at a user message so a
+ * stored conversation never starts with a dangling assistant reply
+ */
+function capTurns(messages: Message[], maxTurns: number): Message[] {
+	const userIndexes = messages.flatMap((message, index) =>
+		message.role === "user" ? [index] : [],
+	);
+
+	if (userIndexes.length <= maxTurns) {
+		return messages;
+	}
+
+	return messages.slice(userIndexes[userIndexes.length - maxTurns]);
+}
+
+/**
+ * Returns the conversation only to its owner. Someone else's conversation
+ * looks the same as a missing one, so ids can't be probed.
+ */
+export async function getChatSession(
+	id: string,
+	owner: string,
+): Promise<ChatSession | null> {
+	const session = await redis.get<ChatSession>(sessionKey(id));
+
+	return session?.owner === owner ? session : null;
+}
+
+/**
+ * Whether the caller may write to the id: it is free or already theirs.
+ * Sessions stored before owners were recorded are claimed by the next save,
+ * so their clients don't get stuck; they can't be read by anyone.
+ */
+export async function canSaveChatSession(
+	id: string,
+	owner: string,
+): Promise<boolean> {
+	const session = await redis.get<ChatSession>(sessionKey(id));
+
+	return !session?.owner || session.owner === owner;
+}
+
+export async function saveChatSession(
+	id: string,
+	owner: string,
+	messages: Message[],
+	guardrails?: GuardrailContext,
+): Promise<ChatSession> {
+	if (!(await canSaveChatSession(id, owner))) {
+		throw new Error(`Chat session ${id} belongs to another caller`);
+	}
+
+	const session: ChatSession = {
+		id,
+		owner,
+		messages: capTurns(messages, getMaxTurns()),
+		guardrails: guardrails && compactGuardrailContext(guardrails),
+		updatedAt: new Date().toISOString(),
+	};
+
+	await redis.set(sessionKey(id), session, { ex: getTtlSeconds() });
+
+	return session;
+}
+
+export async function deleteChatSession(
+	id: string,
+	owner: string,
+): Promise<boolean> {
+	if (!(await getChatSession(id, owner))) {
+		return false;
+	}
+
+	return (await redis.del(sessionKey(id))) > 0;
+}
@@ -0,0 +1,202 @@
+import { jsonError } from "@/lib/http";
+import { generateId } from "ai";
+import { z } from "zod";
+
+// Limits on what a client can send in one chat request
+export const MAX_MESSAGES = 100;
+export const MAX_USER_MESSAGE_CHARS = 4000;
+// Assistant messages carry the markdown tables written by the model
+export const MAX_ASSISTANT_MESSAGE_CHARS = 20000;
+// Tool calls and results of one assistant message, as JSON
+export const MAX_TOOL_DATA_CHARS = 200_000;
+// Text of the whole conversation. Tool results don't count: useChat resends
+// all of them with every request, and each message already caps them.
+export const MAX_CONVERSATION_CHARS = 1_000_000;
+// Raw body, tool results included, checked before parsing it
+export const MAX_BODY_BYTES = 10_000_000;
+
+// Tool arguments and results of this app are always objects
+const toolCallSchema = z.object({
+	step: z.number().int().optional(),
+	toolCallId: z.string().max(128),
+	toolName: z.string().max(128),
+	args: z.record(z.unknown()),
+});
+
+const toolInvocationSchema = z.discriminatedUnion("state", [
+	toolCallSchema.extend({ state: z.enum(["partial-call", "call"]) }),
+	toolCallSchema.extend({
+		state: z.literal("result"),
+		result: z.record(z.unknown()),
+	}),
+]);
+
+// The parts useChat builds for this app's messages, anything else is rejected
+const partSchema = z.discriminatedUnion("type", [
+	z.object({ type: z.literal("text"), text: z.string() }),
+	z.object({ type: z.literal("step-start") }),
+	z.object({
+		type: z.literal("tool-invocation"),
+		toolInvocation: toolInvocationSchema,
+	}),
+]);
+
+// Unknown fields such as attachments are stripped. The SDK builds the prompt
+// from the parts when there are any, so they are checked like the content.
+const baseMessageSchema = z.object({
+	// The SDK needs an id on every message, API clients may leave it out
+	id: z
+		.string()
+		.max(128)
+		.default(() => generateId()),
+	// System prompts are set by the server only
+	role: z.enum(["user", "assistant"], {
+		errorMap: () => ({
+			message: "Only user and assistant messages are allowed",
+		}),
+	}),
+	content: z.string(),
+	parts: z.array(partSchema).optional(),
+	toolInvocations: z.array(toolInvocationSchema).optional(),
+});
+
+type MessageInput = z.infer<typeof baseMessageSchema>;
+
+// Text the model reads from the message, the parts take over the content
+function getTextLength(message: MessageInput): number {
+	const partsChars = (message.parts ?? []).reduce(
+		(total, part) => total + (part.type === "text" ? part.text.length : 0),
+		0,
+	);
+
+	return Math.max(message.content.length, partsChars);
+}
+
+const messageSchema = baseMessageSchema.superRefine((message, ctx) => {
+	const maxChars =
+		message.role === "user"
+			? MAX_USER_MESSAGE_CHARS
+			: MAX_ASSISTANT_MESSAGE_CHARS;
+
+	if (getTextLength(message) > maxChars) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.too_big,
+			type: "string",
+			maximum: maxChars,
+			inclusive: true,
+			path: ["content"],
+			message: `Messages can't be longer than ${maxChars} characters`,
+		});
+	}
+
+	const toolData = [
+		...(message.toolInvocations ?? []),
+		...(message.parts ?? []).flatMap((part) =>
+			part.type === "tool-invocation" ? [part.toolInvocation] : [],
+		),
+	];
+
+	if (message.role === "user" && toolData.length > 0) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["toolInvocations"],
+			message: "User messages can't contain tool invocations",
+		});
+	} else if (JSON.stringify(toolData).length > MAX_TOOL_DATA_CHARS) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.too_big,
+			type: "string",
+			maximum: MAX_TOOL_DATA_CHARS,
+			inclusive: true,
+			path: ["toolInvocations"],
+			message: `Tool results can't be longer than ${MAX_TOOL_DATA_CHARS} characters`,
+		});
+	}
+});
+
+export const chatRequestSchema = z.object({
+	// useChat sends its chat id along with the messages
+	id: z.string().optional(),
+	messages: z
+		.array(messageSchema)
+		.min(1)
+		.max(MAX_MESSAGES, {
+			message: `Conversations can't have more than ${MAX_MESSAGES} messages`,
+		})
+		.refine((messages) => messages[messages.length - 1]?.role === "user", {
+			message: "The last message must be from the user",
+		})
+		.refine(
+			(messages) =>
+				messages.reduce(
+					(total, message) => total + getTextLength(message),
+					0,
+				) <= MAX_CONVERSATION_CHARS,
+			{
+				message: `Conversations can't be longer than ${MAX_CONVERSATION_CHARS} characters`,
+			},
+		),
+});
+
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+
+function invalidRequest(message: string, issues?: z.ZodIssue[]): Response {
+	return jsonError(400, "Invalid request", message, issues ? { issues } : {});
+}
+
+/**
+ * Parses and validates the body of a chat request. Returns the request, or a
+ * 400 response describing what is wrong with it.
+ */
+export async function parseChatRequest(
+	req: Request,
+): Promise<
+	{ success: true; data: ChatRequest } | { success: false; response: Response }
+> {
+	const contentLength = Number(req.headers.get("content-length"));
+
+	if (contentLength > MAX_BODY_BYTES) {
+		return {
+			success: false,
+			response: invalidRequest(
+				`The request can't be larger than ${MAX_BODY_BYTES} bytes.`,
+			),
+		};
+	}
+
+	// The header can be missing or wrong, so check the actual body too
+	const body = await req.text();
+
+	if (Buffer.byteLength(body) > MAX_BODY_BYTES) {
+		return {
+			success: false,
+			response: invalidRequest(
+				`The request can't be larger than ${MAX_BODY_BYTES} bytes.`,
+			),
+		};
+	}
+
+	let json: unknown;
+	try {
+		json = JSON.parse(body);
+	} catch {
+		return {
+			success: false,
+			response: invalidRequest("The request body is not valid JSON."),
+		};
+	}
+
+	const parsed = chatRequestSchema.safeParse(json);
+
+	if (!parsed.success) {
+		return {
+			success: false,
+			response: invalidRequest(
+				parsed.error.issues[0]?.message ?? "The request is not valid.",
+				parsed.error.issues,
+			),
+		};
+	}
+
+	return { success: true, data: parsed.data };
+}
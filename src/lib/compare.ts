@@ -0,0 +1,241 @@
+import { formatPrice } from "@/lib/price-insight";
+import type { ProductDocument, ProductResult } from "@/lib/search/types";
+import { getDocumentSpecs, getSpecAttribute } from "@/lib/specs";
+import { toProductResult } from "@/lib/utils/parse-search-results";
+import { NUMBER_PATTERN, parseLocaleNumber } from "@/lib/utils/text";
+
+type BetterWhen = "higher" | "lower";
+
+export interface ComparisonRow {
+	key: string;
+	label: string;
+	// One value per compared product, in the same order as the products
+	values: Array<string | null>;
+	differs: boolean;
+	// Indexes of the products holding the best value of the row
+	best: number[];
+}
+
+export interface ProductComparison {
+	products: ProductResult[];
+	rows: ComparisonRow[];
+	// Requested ids that could not be found
+	missing: string[];
+	markdown: string;
+}
+
+// A comparison needs at least two products to put side by side
+const MIN_COMPARED_PRODUCTS = 2;
+
+function parseNumber(value: string | null): number | null {
+	const match = value?.match(new RegExp(NUMBER_PATTERN));
+	return match ? parseLocaleNumber(match[0]) : null;
+}
+
+function findBest(
+	values: Array<string | null>,
+	numbers: Array<number | null>,
+	betterWhen?: BetterWhen,
+): number[] {
+	const present = numbers.filter((n): n is number => n !== null);
+
+	// Only rank rows where every value is comparable and they are not all equal
+	if (!betterWhen || present.length !== values.length) {
+		return [];
+	}
+
+	const target =
+		betterWhen === "higher" ? Math.max(...present) : Math.min(...present);
+
+	if (present.every((n) => n === target)) {
+		return [];
+	}
+
+	return numbers.flatMap((n, index) => (n === target ? [index] : []));
+}
+
+function buildRow(
+	key: string,
+	label: string,
+	values: Array<string | null>,
+	options: { numbers?: Array<number | null>; betterWhen?: BetterWhen } = {},
+): ComparisonRow {
+	const numbers = options.numbers ?? values.map(parseNumber);
+	const distinct = new Set(values.map((value) => value?.toLowerCase() ?? null));
+
+	return {
+		key,
+		label,
+		values,
+		differs: distinct.size > 1,
+		best: findBest(values, numbers, options.betterWhen),
+	};
+}
+
+/**
+ * Aligns the canonical specs of several products and marks, per row, whether the
+ * values differ and which product holds the best one
+ */
+export function compareProducts(
+	documents: ProductDocument[],
+	missing: string[] = [],
+): ProductComparison {
+	const products = documents.map((document) => toProductResult(document));
+
+	if (products.length < MIN_COMPARED_PRODUCTS) {
+		return {
+			products,
+			rows: [],
+			missing,
+			markdown: formatNotComparable(products, missing),
+		};
+	}
+
+	const rows: ComparisonRow[] = [
+		buildRow(
+			"price",
+			"Precio actual",
+			products.map((product) => formatPrice(product.price)),
+			{
+				numbers: products.map((product) => product.price),
+				betterWhen: "lower",
+			},
+		),
+		buildRow(
+			"card_price",
+			"Precio con tarjeta",
+			products.map(({ insight }) =>
+				insight.cardPrice
+					? `${formatPrice(insight.cardPrice.price)} (${insight.cardPrice.store ?? "tarjeta"})`
+					: null,
+			),
+			{
+				numbers: products.map(
+					({ insight }) => insight.cardPrice?.price ?? null,
+				),
+			},
+		),
+		buildRow(
+			"lowest_price",
+			"Precio más bajo",
+			products.map((product) =>
+				product.insight.lowestPrice !== null
+					? formatPrice(product.insight.lowestPrice)
+					: null,
+			),
+			{ numbers: products.map((product) => product.insight.lowestPrice) },
+		),
+		buildRow(
+			"verdict",
+			"Recomendación de compra",
+			products.map((product) => product.insight.label),
+		),
+		buildRow(
+			"stores",
+			"Disponibilidad",
+			products.map((product) => `${product.store_count} tiendas`),
+			{
+				numbers: products.map((product) => product.store_count),
+				betterWhen: "higher",
+			},
+		),
+		buildRow(
+			"brand",
+			"Marca",
+			products.map((product) => product.brand),
+		),
+	];
+
+	// Only compare card prices when at least one product has one
+	if (products.every(({ insight }) => !insight.cardPrice)) {
+		rows.splice(
+			rows.findIndex((row) => row.key === "card_price"),
+			1,
+		);
+	}
+
+	// Align the canonical specs of every product, in the order they first appear
+	const specsByProduct = documents.map((document) =>
+		getDocumentSpecs(document),
+	);
+	const specLabels = new Map<string, string>();
+
+	for (const specs of specsByProduct) {
+		for (const spec of specs) {
+			if (!specLabels.has(spec.key)) {
+				specLabels.set(spec.key, spec.label);
+			}
+		}
+	}
+
+	for (const [key, label] of specLabels) {
+		const specs = specsByProduct.map((productSpecs) =>
+			productSpecs.find((spec) => spec.key === key),
+		);
+
+		rows.push(
+			buildRow(
+				key,
+				label,
+				specs.map((spec) => spec?.display ?? null),
+				{
+					// Ranges like "50-59 pulgadas" have no single value to rank
+					numbers: specs.map((spec) =>
+						spec?.max === undefined ? (spec?.value ?? null) : null,
+					),
+					betterWhen: getSpecAttribute(key)?.betterWhen,
+				},
+			),
+		);
+	}
+
+	return {
+		products,
+		rows,
+		missing,
+		markdown: formatComparisonTable(products, rows),
+	};
+}
+
+/**
+ * Explains why there is nothing to compare, naming the products not found
+ */
+function formatNotComparable(
+	products: ProductResult[],
+	missing: string[],
+): string {
+	let output = `Can't compare: only ${products.length} of the requested products ${products.length === 1 ? "was" : "were"} found.\n`;
+
+	if (missing.length > 0) {
+		output += `Products not found: ${missing.join(", ")}\n`;
+	}
+
+	for (const product of products) {
+		output += `Found: ${product.title} (${product.id})\n`;
+	}
+
+	return output;
+}
+
+/**
+ * Renders the comparison as a markdown table with one column per product.
+ * Best values are bold and rows with differences are marked with ≠.
+ */
+function formatComparisonTable(
+	products: ProductResult[],
+	rows: ComparisonRow[],
+): string {
+	let output = `| Característica | ${products.map((product) => product.title).join(" | ")} |\n`;
+	output += `|---|${products.map(() => "---").join("|")}|\n`;
+
+	for (const row of rows) {
+		const cells = row.values.map((value, index) => {
+			const text = value ?? "—";
+			return row.best.includes(index) ? `**${text}**` : text;
+		});
+
+		output += `| ${row.label}${row.differs ? " ≠" : ""} | ${cells.join(" | ")} |\n`;
+	}
+
+	return output;
+}
@@ -0,0 +1,390 @@
+import type { ProductResult } from "@/lib/search/types";
+import { foldText } from "@/lib/utils/text";
+import { trace } from "@opentelemetry/api";
+import type { StreamTextTransform, TextStreamPart, ToolSet } from "ai";
+
+export type GuardrailViolation =
+	| { type: "external_link"; url: string }
+	| { type: "unknown_price"; amount: number; text: string }
+	| { type: "unknown_product"; name: string };
+
+/**
+ * What the tools returned in the conversation: the answer may only quote
+ * these products and amounts. Plain values, so it can be stored with the
+ * chat session.
+ */
+export interface GuardrailContext {
+	// Title, brand and model of each product returned
+	products: string[];
+	// Current, lowest and card prices of those products
+	prices: number[];
+	// Any other amount quoted in the text given to the model
+	amounts: number[];
+}
+
+export interface GuardrailOptions {
+	// "rewrite" strips external links from the answer, "flag" only reports them
+	mode: "rewrite" | "flag";
+	// Append a note to the answer when it quotes unknown prices or products
+	correctionNote: boolean;
+}
+
+const ALLOWED_HOST = "compy.pe";
+
+// Prices off by less than a cent are rounding, not hallucinations
+const PRICE_TOLERANCE = 0.01;
+
+// Share of the name tokens that must appear in a known product
+const MIN_NAME_OVERLAP = 0.6;
+
+// Values kept per list when the context is stored, the most recent ones win
+const MAX_STORED_VALUES = 500;
+
+const CORRECTION_NOTE =
+	"\n\n> ⚠️ Algunos precios o productos de esta respuesta no coinciden con los datos de Compy. Verifica el precio en la ficha del producto antes de comprar.\n";
+
+const MARKDOWN_LINK = /(!?)\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/g;
+const BARE_URL = /(?<![(\w])https?:\/\/[^\s)<>\]]+/g;
+const PRICE = /S\/\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)/g;
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}/;
+const PRODUCT_COLUMN = /^(modelo( completo)?|model|producto|product)$/i;
+
+export function guardrailOptionsFromEnv(): GuardrailOptions {
+	return {
+		mode: process.env.GUARDRAILS_MODE === "flag" ? "flag" : "rewrite",
+		correctionNote: process.env.GUARDRAILS_CORRECTION_NOTE !== "false",
+	};
+}
+
+function isAllowedUrl(url: string): boolean {
+	try {
+		const { hostname } = new URL(url);
+		return hostname === ALLOWED_HOST || hostname.endsWith(`.${ALLOWED_HOST}`);
+	} catch {
+		return false;
+	}
+}
+
+function parsePrice(text: string): number {
+	return Number.parseFloat(text.replace(/,/g, ""));
+}
+
+function extractAmounts(text: string): number[] {
+	return [...text.matchAll(PRICE)].map((match) => parsePrice(match[1]));
+}
+
+function tokenize(text: string): string[] {
+	return foldText(text)
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter((token) => token.length > 1);
+}
+
+function tableCells(line: string): string[] {
+	return line
+		.trim()
+		.replace(/^\||\|$/g, "")
+		.split("|")
+		.map((cell) => cell.trim());
+}
+
+function stripMarkdown(text: string): string {
+	return text.replace(/[*_`~]/g, "").trim();
+}
+
+/**
+ * Creates a context, seeded with the one stored for the conversation so
+ * results of earlier turns can still be quoted
+ */
+export function createGuardrailContext(
+	seed?: GuardrailContext,
+): GuardrailContext {
+	return {
+		products: [...(seed?.products ?? [])],
+		prices: [...(seed?.prices ?? [])],
+		amounts: [...(seed?.amounts ?? [])],
+	};
+}
+
+/**
+ * Drops repeated values and keeps the most recent ones, to store the context
+ */
+export function compactGuardrailContext(
+	context: GuardrailContext,
+): GuardrailContext {
+	const keepRecent = <T>(values: T[]) =>
+		[...new Set([...values].reverse())].slice(0, MAX_STORED_VALUES).reverse();
+
+	return {
+		products: keepRecent(context.products),
+		prices: keepRecent(context.prices),
+		amounts: keepRecent(context.amounts),
+	};
+}
+
+/**
+ * Adds whatever a tool returned to the context: products from searches and
+ * comparisons, plus every amount quoted in the text given to the model. Only
+ * pass results of tools run by the server, never tool data sent by clients.
+ */
+export function addToolResult(context: GuardrailContext, result: unknown) {
+	if (!result || typeof result !== "object") {
+		return;
+	}
+
+	const { products, text, markdown } = result as {
+		products?: ProductResult[];
+		text?: string;
+		markdown?: string;
+	};
+
+	if (Array.isArray(products)) {
+		for (const { title, brand, model, price, insight } of products) {
+			context.products.push(`${title} ${brand} ${model}`);
+			context.prices.push(
+				...[
+					price,
+					insight.lowestPrice,
+					insight.cardPrice?.price ?? null,
+				].filter((known): known is number => known !== null),
+			);
+		}
+	}
+
+	for (const content of [text, markdown]) {
+		if (typeof content === "string") {
+			context.amounts.push(...extractAmounts(content));
+		}
+	}
+}
+
+function isKnownAmount(context: GuardrailContext, amount: number): boolean {
+	const { prices } = context;
+
+	// Differences between two quoted prices are fine too ("S/ 200 cheaper")
+	const differences = prices.flatMap((a) => prices.map((b) => a - b));
+
+	return [...prices, ...differences, ...context.amounts].some(
+		(known) => Math.abs(known - amount) < PRICE_TOLERANCE,
+	);
+}
+
+function isKnownProduct(context: GuardrailContext, name: string): boolean {
+	const tokens = tokenize(name);
+
+	if (tokens.length === 0) {
+		return true;
+	}
+
+	return context.products.some((product) => {
+		const known = new Set(tokenize(product));
+		const matches = tokens.filter((token) => known.has(token)).length;
+
+		return matches / tokens.length >= MIN_NAME_OVERLAP;
+	});
+}
+
+/**
+ * Validates an answer line by line. Keeps the table state between calls, so
+ * it also works on a stream cut into lines.
+ */
+export function createAnswerValidator(
+	context: GuardrailContext,
+	{ mode }: Pick<GuardrailOptions, "mode">,
+) {
+	let previousLine = "";
+	let inProductTable = false;
+
+	return (line: string): { line: string; violations: GuardrailViolation[] } => {
+		const violations: GuardrailViolation[] = [];
+		const rewrite = mode === "rewrite";
+
+		let output = line.replace(MARKDOWN_LINK, (link, image, label, url) => {
+			if (isAllowedUrl(url)) {
+				return link;
+			}
+
+			violations.push({ type: "external_link", url });
+			// Images from other hosts are dropped, links keep their label
+			return rewrite ? (image ? "" : label) : link;
+		});
+
+		output = output.replace(BARE_URL, (url) => {
+			if (isAllowedUrl(url)) {
+				return url;
+			}
+
+			violations.push({ type: "external_link", url });
+			return rewrite ? "" : url;
+		});
+
+		for (const match of line.matchAll(PRICE)) {
+			const amount = parsePrice(match[1]);
+
+			if (!isKnownAmount(context, amount)) {
+				violations.push({ type: "unknown_price", amount, text: match[0] });
+			}
+		}
+
+		// Products are named in the first column of the product tables
+		const trimmed = line.trim();
+
+		if (TABLE_SEPARATOR.test(trimmed)) {
+			inProductTable = PRODUCT_COLUMN.test(
+				stripMarkdown(tableCells(previousLine)[0] ?? ""),
+			);
+		} else if (!trimmed.startsWith("|")) {
+			inProductTable = false;
+		} else if (inProductTable) {
+			const name = stripMarkdown(tableCells(trimmed)[0] ?? "");
+
+			if (!isKnownProduct(context, name)) {
+				violations.push({ type: "unknown_product", name });
+			}
+		}
+
+		previousLine = trimmed;
+
+		return { line: output, violations };
+	};
+}
+
+/**
+ * Validates a whole answer against the tool data, returning the rewritten
+ * text and every violation found
+ */
+export function validateAnswer(
+	text: string,
+	context: GuardrailContext,
+	options: Pick<GuardrailOptions, "mode"> = { mode: "rewrite" },
+): { text: string; violations: GuardrailViolation[] } {
+	const validate = createAnswerValidator(context, options);
+	const lines = text.split("\n").map(validate);
+
+	return {
+		text: lines.map(({ line }) => line).join("\n"),
+		violations: lines.flatMap(({ violations }) => violations),
+	};
+}
+
+function reportViolations(
+	violations: GuardrailViolation[],
+	attributes: Record<string, string>,
+) {
+	const span = trace.getTracer("compy-ai").startSpan("guardrails.violations", {
+		attributes: {
+			...attributes,
+			"guardrails.count": violations.length,
+			"guardrails.types": [...new Set(violations.map(({ type }) => type))],
+		},
+	});
+
+	for (const violation of violations) {
+		span.addEvent(`guardrails.${violation.type}`, {
+			value:
+				violation.type === "external_link"
+					? violation.url
+					: violation.type === "unknown_price"
+						? violation.text
+						: violation.name,
+		});
+	}
+
+	span.end();
+
+	console.warn("[guardrails]", attributes, violations);
+}
+
+/**
+ * Stream transform for streamText that checks the answer as it streams: text
+ * is released line by line once validated, tool results extend the context
+ * and violations are reported to telemetry when the answer finishes
+ */
+export function createGuardrailsTransform<TOOLS extends ToolSet>({
+	context: seed,
+	attributes = {},
+	options = guardrailOptionsFromEnv(),
+}: {
+	// Stored for the conversation by the server, see createGuardrailContext
+	context?: GuardrailContext;
+	// Extra span attributes, e.g. the client key
+	attributes?: Record<string, string>;
+	options?: GuardrailOptions;
+} = {}): StreamTextTransform<TOOLS> {
+	return () => {
+		const context = createGuardrailContext(seed);
+
+		const validate = createAnswerValidator(context, options);
+		const violations: GuardrailViolation[] = [];
+		let buffer = "";
+
+		const release = (
+			controller: TransformStreamDefaultController<TextStreamPart<TOOLS>>,
+			text: string,
+		) => {
+			// A trailing newline leaves an empty piece that isn't a line yet
+			const lines = text
+				.split("\n")
+				.map((line, index, all) =>
+					index === all.length - 1 && !line
+						? { line, violations: [] }
+						: validate(line),
+				);
+
+			violations.push(...lines.flatMap((line) => line.violations));
+
+			controller.enqueue({
+				type: "text-delta",
+				textDelta: lines.map(({ line }) => line).join("\n"),
+			});
+		};
+
+		const flush = (
+			controller: TransformStreamDefaultController<TextStreamPart<TOOLS>>,
+		) => {
+			if (buffer) {
+				release(controller, buffer);
+				buffer = "";
+			}
+		};
+
+		return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+			transform(chunk, controller) {
+				if (chunk.type === "text-delta") {
+					buffer += chunk.textDelta;
+
+					// Only complete lines can be validated
+					const end = buffer.lastIndexOf("\n");
+
+					if (end >= 0) {
+						release(controller, buffer.slice(0, end + 1));
+						buffer = buffer.slice(end + 1);
+					}
+
+					return;
+				}
+
+				flush(controller);
+
+				if (chunk.type === "tool-result") {
+					addToolResult(context, chunk.result);
+				}
+
+				if (chunk.type === "finish" && violations.length > 0) {
+					reportViolations(violations, attributes);
+
+					if (
+						options.correctionNote &&
+						violations.some(({ type }) => type !== "external_link")
+					) {
+						controller.enqueue({
+							type: "text-delta",
+							textDelta: CORRECTION_NOTE,
+						});
+					}
+				}
+
+				controller.enqueue(chunk);
+			},
+		});
+	};
+}
@@ -0,0 +1,44 @@
+/**
+ * JSON error response in the shape every API route uses: a short `error`
+ * plus a user-facing `message`, with any extra fields alongside
+ */
+export function jsonError(
+	status: number,
+	error: string,
+	message: string,
+	extra: Record<string, unknown> = {},
+	headers: Record<string, string> = {},
+): Response {
+	return new Response(JSON.stringify({ error, message, ...extra }), {
+		status,
+		headers: { "Content-Type": "application/json", ...headers },
+	});
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;");
+}
+
+/**
+ * Minimal HTML page for links opened from emails or WhatsApp. With `action`
+ * it shows a button that POSTs back to the same URL, so link scanners that
+ * prefetch the GET don't trigger the action.
+ */
+export function htmlPage(
+	status: number,
+	message: string,
+	action?: { label: string },
+): Response {
+	const form = action
+		? `<form method="post"><button type="submit">${escapeHtml(action.label)}</button></form>`
+		: "";
+
+	return new Response(
+		`<!doctype html><html lang="es"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><meta name="robots" content="noindex"><title>Compy</title></head><body><p>${escapeHtml(message)}</p>${form}</body></html>`,
+		{ status, headers: { "Content-Type": "text/html; charset=utf-8" } },
+	);
+}
@@ -0,0 +1,194 @@
+import { redis } from "@/lib/redis";
+
+/**
+ * Who is calling, as resolved from the request. `key` is the stable id used
+ * for rate limiting, logs and analytics.
+ */
+export interface ClientIdentity {
+	key: string;
+	ip: string;
+	userAgent: string;
+	// Anonymous session id from the signed cookie
+	sessionId: string;
+	// True when the session was issued by this request and must be set as a cookie
+	isNewSession: boolean;
+	// Listed in the Redis allow or deny list
+	access: "allow" | "deny" | "default";
+	// Sent the ADMIN_SECRET, e.g. to debug live results without caches
+	isAdmin: boolean;
+}
+
+export const SESSION_COOKIE = "compy_sid";
+
+const SESSION_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+// Redis sets of IPs managed by the team, e.g. `SADD @compy/ip/deny 1.2.3.4`
+const IP_ALLOW_LIST_KEY = "@compy/ip/allow";
+const IP_DENY_LIST_KEY = "@compy/ip/deny";
+
+/**
+ * Resolves the client IP from X-Forwarded-For. Every trusted proxy appends
+ * the address it received the request from, so the client is the entry
+ * TRUSTED_PROXY_COUNT positions from the right; anything further left was
+ * sent by the client and can be spoofed.
+ */
+export function getClientIp(
+	headers: Headers,
+	trustedProxyCount = Number(process.env.TRUSTED_PROXY_COUNT ?? 1),
+): string {
+	const forwarded = (headers.get("x-forwarded-for") ?? "")
+		.split(",")
+		.map((entry) => entry.trim())
+		.filter(Boolean);
+
+	if (trustedProxyCount > 0 && forwarded.length > 0) {
+		// With fewer entries than proxies the leftmost one is the best we know
+		return forwarded[Math.max(forwarded.length - trustedProxyCount, 0)];
+	}
+
+	return headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+/**
+ * HMAC-SHA256 signature of `value`, base64url encoded
+ */
+export async function sign(value: string, secret: string): Promise<string> {
+	const key = await crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		key,
+		new TextEncoder().encode(value),
+	);
+
+	return Buffer.from(signature).toString("base64url");
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) {
+		diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+
+	return diff === 0;
+}
+
+function getCookie(headers: Headers, name: string): string | undefined {
+	return (headers.get("cookie") ?? "")
+		.split(";")
+		.map((cookie) => cookie.trim().split("="))
+		.find(([cookieName]) => cookieName === name)?.[1];
+}
+
+/**
+ * Returns the session id of a `<id>.<signature>` cookie, or null when it is
+ * missing or was not signed with SESSION_SECRET
+ */
+export async function verifySessionCookie(
+	value: string | undefined,
+	secret: string,
+): Promise<string | null> {
+	const [sessionId, signature] = value?.split(".") ?? [];
+
+	if (!sessionId || !signature) {
+		return null;
+	}
+
+	return timingSafeEqual(signature, await sign(sessionId, secret))
+		? sessionId
+		: null;
+}
+
+function isAdminRequest(headers: Headers): boolean {
+	const secret = process.env.ADMIN_SECRET;
+	const provided = headers.get("x-admin-secret");
+
+	return Boolean(secret && provided && timingSafeEqual(provided, secret));
+}
+
+async function getIpAccess(ip: string): Promise<ClientIdentity["access"]> {
+	const [denied, allowed] = await redis
+		.pipeline()
+		.sismember(IP_DENY_LIST_KEY, ip)
+		.sismember(IP_ALLOW_LIST_KEY, ip)
+		.exec<[number, number]>();
+
+	if (denied) {
+		return "deny";
+	}
+
+	return allowed ? "allow" : "default";
+}
+
+/**
+ * Resolves the identity of the caller. A valid signed session cookie is the
+ * primary key; without one a new session is issued and the request is keyed
+ * by IP. Sessions are free to create, so anonymous requests are also limited
+ * per IP (see checkRateLimit).
+ */
+export async function resolveClientIdentity(
+	req: Request,
+): Promise<ClientIdentity> {
+	const ip = getClientIp(req.headers);
+	const userAgent = req.headers.get("user-agent") ?? "unknown";
+	const secret = process.env.SESSION_SECRET;
+
+	const sessionId = secret
+		? await verifySessionCookie(getCookie(req.headers, SESSION_COOKIE), secret)
+		: null;
+
+	return {
+		key: sessionId ? `sid:${sessionId}` : `ip:${ip}`,
+		ip,
+		userAgent,
+		sessionId: sessionId ?? crypto.randomUUID(),
+		// Without a secret sessions can't be signed, so none are issued
+		isNewSession: !sessionId && Boolean(secret),
+		access: await getIpAccess(ip),
+		isAdmin: isAdminRequest(req.headers),
+	};
+}
+
+/**
+ * Id of the caller that stays the same across requests: the API key id for
+ * keyed callers, otherwise the anonymous session, including one issued by
+ * this request. Without SESSION_SECRET there are no sessions, so the IP.
+ */
+export function getCallerId(
+	identity: ClientIdentity,
+	apiKeyId?: string,
+): string {
+	if (apiKeyId) {
+		return `key:${apiKeyId}`;
+	}
+
+	return identity.isNewSession ? `sid:${identity.sessionId}` : identity.key;
+}
+
+/**
+ * Set-Cookie header for a newly issued session, empty when none is needed
+ */
+export async function sessionCookieHeaders(
+	identity: ClientIdentity,
+): Promise<Record<string, string>> {
+	const secret = process.env.SESSION_SECRET;
+
+	if (!identity.isNewSession || !secret) {
+		return {};
+	}
+
+	const value = `${identity.sessionId}.${await sign(identity.sessionId, secret)}`;
+
+	return {
+		"Set-Cookie": `${SESSION_COOKIE}=${value}; Path=/; Max-Age=${SESSION_MAX_AGE_SECONDS}; HttpOnly; Secure; SameSite=Lax`,
+	};
+}
@@ -0,0 +1,197 @@
+import type { RateLimitTier } from "@/lib/rate-limit";
+import { createOpenAI, openai } from "@ai-sdk/openai";
+import type { LanguageModelV1, LanguageModelV1StreamPart } from "ai";
+
+export type ModelProvider = "openai" | "local";
+
+const DEFAULT_MODEL = "openai:gpt-4o";
+const DEFAULT_FALLBACK_MODEL = "openai:gpt-4o-mini";
+
+// Any OpenAI-compatible server (Ollama, LM Studio, vLLM...), e.g. "local:llama3.1"
+const local = createOpenAI({
+	name: "local",
+	baseURL: process.env.LOCAL_MODEL_BASE_URL ?? "http://localhost:11434/v1",
+	apiKey: process.env.LOCAL_MODEL_API_KEY ?? "local",
+	compatibility: "compatible",
+});
+
+/**
+ * Creates a model from a "provider:model" spec such as "openai:gpt-4o" or
+ * "local:qwen2.5". A spec without provider uses OpenAI.
+ */
+export function createModel(spec: string): LanguageModelV1 {
+	const separator = spec.indexOf(":");
+	const provider = separator > 0 ? spec.slice(0, separator) : "openai";
+	const modelId = separator > 0 ? spec.slice(separator + 1) : spec;
+
+	if (!modelId) {
+		throw new Error(`Missing model id in "${spec}"`);
+	}
+
+	switch (provider as ModelProvider) {
+		case "openai":
+			return openai(modelId);
+		case "local":
+			return local(modelId);
+		default:
+			throw new Error(`Unknown model provider "${provider}" in "${spec}"`);
+	}
+}
+
+// Invalid specs already logged, so a typo doesn't log on every request
+const reportedSpecs = new Set<string>();
+
+/**
+ * Creates the model of a spec read from the environment. An invalid spec
+ * must not fail every chat request, so it is logged and the default is used.
+ */
+function createConfiguredModel(
+	spec: string,
+	defaultSpec: string,
+): LanguageModelV1 {
+	try {
+		return createModel(spec);
+	} catch (error) {
+		if (!reportedSpecs.has(spec)) {
+			reportedSpecs.add(spec);
+			console.error(`Invalid model spec, using "${defaultSpec}":`, error);
+		}
+
+		return createModel(defaultSpec);
+	}
+}
+
+/**
+ * Waits for the first content part of a stream, so errors that happen before
+ * anything reached the user can still be retried. Returns a stream that
+ * replays the buffered parts followed by the rest.
+ */
+async function peekStream(
+	stream: ReadableStream<LanguageModelV1StreamPart>,
+): Promise<ReadableStream<LanguageModelV1StreamPart>> {
+	const reader = stream.getReader();
+	const buffered: LanguageModelV1StreamPart[] = [];
+
+	while (true) {
+		const { done, value } = await reader.read();
+
+		if (done) {
+			break;
+		}
+
+		if (value.type === "error") {
+			reader.cancel().catch(() => {});
+			throw value.error;
+		}
+
+		buffered.push(value);
+
+		if (value.type !== "response-metadata") {
+			break;
+		}
+	}
+
+	return new ReadableStream({
+		start(controller) {
+			for (const part of buffered) {
+				controller.enqueue(part);
+			}
+		},
+		async pull(controller) {
+			const { done, value } = await reader.read();
+
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(value);
+			}
+		},
+		cancel(reason) {
+			return reader.cancel(reason);
+		},
+	});
+}
+
+/**
+ * Wraps a model so failed calls are retried once on a fallback model. Streams
+ * only fall back until their first token; after that errors reach the caller
+ * as usual. Calls aborted by the user are never retried.
+ */
+export function withFallback(
+	primary: LanguageModelV1,
+	fallback: LanguageModelV1,
+): LanguageModelV1 {
+	const shouldFallBack = (
+		error: unknown,
+		options: Parameters<LanguageModelV1["doStream"]>[0],
+	) => {
+		if (options.abortSignal?.aborted) {
+			return false;
+		}
+
+		console.error(
+			`Model ${primary.provider}:${primary.modelId} failed, falling back to ${fallback.provider}:${fallback.modelId}:`,
+			error,
+		);
+		return true;
+	};
+
+	return {
+		specificationVersion: "v1",
+		provider: primary.provider,
+		modelId: primary.modelId,
+		defaultObjectGenerationMode: primary.defaultObjectGenerationMode,
+		supportsImageUrls: primary.supportsImageUrls,
+		supportsStructuredOutputs: primary.supportsStructuredOutputs,
+
+		doGenerate: async (options) => {
+			try {
+				return await primary.doGenerate(options);
+			} catch (error) {
+				if (!shouldFallBack(error, options)) {
+					throw error;
+				}
+				return fallback.doGenerate(options);
+			}
+		},
+
+		doStream: async (options) => {
+			try {
+				const result = await primary.doStream(options);
+				return { ...result, stream: await peekStream(result.stream) };
+			} catch (error) {
+				if (!shouldFallBack(error, options)) {
+					throw error;
+				}
+				return fallback.doStream(options);
+			}
+		},
+	};
+}
+
+/**
+ * Chat model for a rate limit tier. CHAT_MODEL_<TIER> (e.g.
+ * CHAT_MODEL_PARTNER) overrides CHAT_MODEL; CHAT_FALLBACK_MODEL=none disables
+ * the fallback.
+ */
+export function getChatModel(
+	tier: RateLimitTier = "anonymous",
+): LanguageModelV1 {
+	const spec =
+		process.env[`CHAT_MODEL_${tier.toUpperCase()}`] ??
+		process.env.CHAT_MODEL ??
+		DEFAULT_MODEL;
+	const fallbackSpec =
+		process.env.CHAT_FALLBACK_MODEL ?? DEFAULT_FALLBACK_MODEL;
+
+	const model = createConfiguredModel(spec, DEFAULT_MODEL);
+
+	if (fallbackSpec === "none" || fallbackSpec === spec) {
+		return model;
+	}
+
+	return withFallback(
+		model,
+		createConfiguredModel(fallbackSpec, DEFAULT_FALLBACK_MODEL),
+	);
+}
@@ -0,0 +1,146 @@
+import { formatPrice } from "@/lib/price-insight";
+import { getSearchProvider } from "@/lib/search";
+import type {
+	ProductStoreMetadata,
+	ProductVectorMetadata,
+} from "@/lib/search/semantic";
+import { foldText } from "@/lib/utils/text";
+import { getVectorIndex, isVectorIndexConfigured } from "@/lib/vector";
+
+export type PaymentType = "cash" | "card";
+
+// What one store asks for a product
+export interface StoreOffer {
+	store: string;
+	url: string;
+	cashPrice: number;
+	cardPrice: number | null;
+	listPrice: number | null;
+	// Lowest of the cash and card prices, offers are ranked by it
+	effectivePrice: number;
+	effectivePaymentType: PaymentType;
+	// null when the store doesn't report stock
+	inStock: boolean | null;
+}
+
+export interface StoreOffers {
+	productId: string;
+	productTitle: string | null;
+	productUrl: string;
+	offers: StoreOffer[];
+	// Stores known to sell the product when per-store prices are missing
+	storeNames: string[];
+	markdown: string;
+}
+
+function toStoreOffer(store: ProductStoreMetadata): StoreOffer {
+	const cardPrice =
+		store.price_card && store.price_card > 0 ? store.price_card : null;
+	const payWithCard = cardPrice !== null && cardPrice < store.price;
+
+	return {
+		store: store.store,
+		url: store.url,
+		cashPrice: store.price,
+		cardPrice,
+		listPrice: store.list_price ?? null,
+		effectivePrice: payWithCard ? cardPrice : store.price,
+		effectivePaymentType: payWithCard ? "card" : "cash",
+		inStock: store.stock === undefined ? null : store.stock > 0,
+	};
+}
+
+// Offers in stock, or with unknown stock, rank above out-of-stock ones
+function compareOffers(a: StoreOffer, b: StoreOffer): number {
+	return (
+		Number(a.inStock === false) - Number(b.inStock === false) ||
+		a.effectivePrice - b.effectivePrice
+	);
+}
+
+/**
+ * Turns the SKUs of a product into one offer per store, keeping the best
+ * listing of stores that appear more than once, sorted by effective price
+ */
+export function buildStoreOffers(stores: ProductStoreMetadata[]): StoreOffer[] {
+	const byStore = new Map<string, StoreOffer>();
+
+	for (const offer of stores.filter((s) => s.price > 0).map(toStoreOffer)) {
+		const key = foldText(offer.store).trim();
+		const current = byStore.get(key);
+
+		if (!current || compareOffers(offer, current) < 0) {
+			byStore.set(key, offer);
+		}
+	}
+
+	return [...byStore.values()].sort(compareOffers);
+}
+
+function formatStock(inStock: boolean | null): string {
+	if (inStock === null) {
+		return "Unknown";
+	}
+
+	return inStock ? "In stock" : "Out of stock";
+}
+
+function formatOffersAsMarkdown(result: Omit<StoreOffers, "markdown">): string {
+	const title = result.productTitle ?? result.productId;
+
+	if (result.offers.length === 0) {
+		return result.storeNames.length > 0
+			? `Per-store prices are not available for "${title}". It is sold at: ${result.storeNames.join(", ")}.\n`
+			: `No store offers found for product ${result.productId}.\n`;
+	}
+
+	const cheapest = result.offers.find((offer) => offer.inStock !== false);
+
+	let output = "## Store Offers\n";
+	output += `*Product: "${title}" - ${result.offers.length} stores`;
+	output += cheapest
+		? `, cheapest: ${cheapest.store} at ${formatPrice(cheapest.effectivePrice)} (${cheapest.effectivePaymentType})*\n\n`
+		: ", all out of stock*\n\n";
+	output += "| Store | Cash Price | Card Price | Effective Price | Stock |\n";
+	output += "|-------|------------|------------|-----------------|-------|\n";
+
+	for (const offer of result.offers) {
+		const cardCell =
+			offer.cardPrice !== null ? formatPrice(offer.cardPrice) : "";
+		output += `| ${offer.store} | ${formatPrice(offer.cashPrice)} | ${cardCell} | ${formatPrice(offer.effectivePrice)} (${offer.effectivePaymentType}) | ${formatStock(offer.inStock)} |\n`;
+	}
+
+	output += `\nCompy URL: ${result.productUrl}\n`;
+
+	return output;
+}
+
+/**
+ * Fetches the store offers of a product from the SKU data kept in the vector
+ * index metadata. Falls back to the store names of the search document when
+ * the product isn't indexed.
+ */
+export async function getStoreOffers(productId: string): Promise<StoreOffers> {
+	const [vector] = isVectorIndexConfigured()
+		? await getVectorIndex().fetch<ProductVectorMetadata>([productId], {
+				includeMetadata: true,
+			})
+		: [null];
+
+	const metadata = vector?.metadata;
+	const document = metadata?.stores?.length
+		? null
+		: await getSearchProvider().getById(productId);
+
+	const result = {
+		productId,
+		productTitle: metadata?.title ?? document?.title ?? null,
+		productUrl:
+			document?.url_compy ?? `https://compy.pe/galeria/producto/${productId}`,
+		offers: buildStoreOffers(metadata?.stores ?? []),
+		storeNames:
+			document?.stores ?? (document?.topstore ? [document.topstore] : []),
+	};
+
+	return { ...result, markdown: formatOffersAsMarkdown(result) };
+}
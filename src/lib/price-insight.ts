@@ -0,0 +1,185 @@
+import type { ProductDocument } from "@/lib/search/types";
+
+export type BuyVerdict = "good" | "wait" | "bad" | "unknown";
+
+export interface PriceInsightThresholds {
+	// At or below this % above the historical minimum it's a good time to buy
+	goodMaxAboveMinimum: number;
+	// Above this % over the historical minimum it's not a good time to buy
+	badMinAboveMinimum: number;
+	// At or below this % vs. the historical median it's also a good time to buy
+	goodMaxVsMedian: number;
+}
+
+export interface PriceInsight {
+	verdict: BuyVerdict;
+	label: string;
+	isMinimum: boolean;
+	lowestPrice: number | null;
+	percentAboveMinimum: number | null;
+	percentVsMedian: number | null;
+	savings: string | null;
+	cardPrice: CardPriceInsight | null;
+}
+
+export const DEFAULT_PRICE_INSIGHT_THRESHOLDS: PriceInsightThresholds = {
+	goodMaxAboveMinimum: 5,
+	badMinAboveMinimum: 30,
+	goodMaxVsMedian: -15,
+};
+
+const VERDICT_LABELS: Record<BuyVerdict, string> = {
+	good: "🟢 Good time to buy",
+	wait: "🟡 Consider waiting",
+	bad: "🔴 Not a good time to buy",
+	unknown: "⚪ No price history",
+};
+
+/**
+ * Reads the verdict thresholds from the environment, falling back to the
+ * defaults for any value that is missing or not a number
+ */
+export function priceInsightThresholdsFromEnv(): PriceInsightThresholds {
+	const read = (name: string, fallback: number) => {
+		const value = Number(process.env[name]);
+		return process.env[name] && Number.isFinite(value) ? value : fallback;
+	};
+
+	return {
+		goodMaxAboveMinimum: read(
+			"PRICE_GOOD_MAX_ABOVE_MIN",
+			DEFAULT_PRICE_INSIGHT_THRESHOLDS.goodMaxAboveMinimum,
+		),
+		badMinAboveMinimum: read(
+			"PRICE_BAD_MIN_ABOVE_MIN",
+			DEFAULT_PRICE_INSIGHT_THRESHOLDS.badMinAboveMinimum,
+		),
+		goodMaxVsMedian: read(
+			"PRICE_GOOD_MAX_VS_MEDIAN",
+			DEFAULT_PRICE_INSIGHT_THRESHOLDS.goodMaxVsMedian,
+		),
+	};
+}
+
+export function formatPrice(price: number): string {
+	return `S/ ${price.toFixed(2)}`;
+}
+
+function percentDifference(value: number, reference: number): number | null {
+	if (!reference || reference <= 0) {
+		return null;
+	}
+
+	return Math.round(((value - reference) / reference) * 1000) / 10;
+}
+
+// A lower price that is only available paying with a store's credit card
+export interface CardPriceInsight {
+	price: number;
+	// Store issuing the card, when known
+	store: string | null;
+	verdict: BuyVerdict;
+	label: string;
+	isMinimum: boolean;
+}
+
+/**
+ * Ranks a price against the historical minimum and median of the product
+ */
+function getVerdict(
+	price: number,
+	metrics: ProductDocument["metrics"],
+	isMinimum: boolean,
+	thresholds: PriceInsightThresholds,
+) {
+	const minimum = metrics?.price_minimum ?? null;
+	const percentAboveMinimum =
+		minimum !== null ? percentDifference(price, minimum) : null;
+	const percentVsMedian =
+		metrics?.median_hist !== undefined
+			? percentDifference(price, metrics.median_hist)
+			: null;
+
+	let verdict: BuyVerdict = "unknown";
+
+	if (isMinimum) {
+		verdict = "good";
+	} else if (percentAboveMinimum !== null) {
+		if (percentAboveMinimum > thresholds.badMinAboveMinimum) {
+			verdict = "bad";
+		} else if (
+			percentAboveMinimum <= thresholds.goodMaxAboveMinimum ||
+			(percentVsMedian !== null &&
+				percentVsMedian <= thresholds.goodMaxVsMedian)
+		) {
+			verdict = "good";
+		} else {
+			verdict = "wait";
+		}
+	}
+
+	return { verdict, percentAboveMinimum, percentVsMedian };
+}
+
+/**
+ * Computes the buy-timing verdict for a product from its price metrics, so the
+ * advice doesn't depend on the model doing arithmetic. The verdict is based on
+ * the cash price, a lower card price gets its own verdict.
+ */
+export function getPriceInsight(
+	product: Pick<
+		ProductDocument,
+		"bestprice" | "metrics" | "price_card" | "price_card_store"
+	>,
+	thresholds: PriceInsightThresholds = priceInsightThresholdsFromEnv(),
+): PriceInsight {
+	const { bestprice, metrics } = product;
+	const minimum = metrics?.price_minimum ?? null;
+	const isMinimum =
+		metrics?.isminimum ?? (minimum !== null && bestprice <= minimum);
+	const { verdict, percentAboveMinimum, percentVsMedian } = getVerdict(
+		bestprice,
+		metrics,
+		isMinimum,
+		thresholds,
+	);
+
+	let savings: string | null = null;
+	const previous = metrics?.prev_price;
+
+	if (previous && previous > bestprice) {
+		const saved = Math.round(((previous - bestprice) / previous) * 100);
+		savings = `Current price: ${formatPrice(bestprice)} (Previous: ${formatPrice(previous)}, Save: ${saved}%)`;
+	}
+
+	let cardPrice: CardPriceInsight | null = null;
+
+	if (product.price_card && product.price_card < bestprice) {
+		const cardIsMinimum = minimum !== null && product.price_card <= minimum;
+		const card = getVerdict(
+			product.price_card,
+			metrics,
+			cardIsMinimum,
+			thresholds,
+		);
+
+		cardPrice = {
+			price: product.price_card,
+			store: product.price_card_store ?? null,
+			verdict: card.verdict,
+			label: VERDICT_LABELS[card.verdict],
+			isMinimum: cardIsMinimum,
+		};
+	}
+
+	return {
+		verdict,
+		label: VERDICT_LABELS[verdict],
+		isMinimum,
+		lowestPrice: minimum,
+		percentAboveMinimum,
+		percentVsMedian,
+		savings,
+		cardPrice,
+	};
+}
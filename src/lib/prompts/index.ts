@@ -0,0 +1,115 @@
+import { format } from "./format";
+import { grounding } from "./grounding";
+import { persona } from "./persona";
+import { priceLogic } from "./price-logic";
+
+export type PromptName = "persona" | "format" | "price_logic" | "grounding";
+
+// Every version of every prompt, in the order they make up the system prompt
+export const PROMPTS: Record<PromptName, Record<string, string>> = {
+	persona,
+	format,
+	price_logic: priceLogic,
+	grounding,
+};
+
+// Versions served to sessions outside of any experiment
+export const DEFAULT_VERSIONS: Record<PromptName, string> = {
+	persona: "v1",
+	format: "v2",
+	price_logic: "v2",
+	grounding: "v1",
+};
+
+/**
+ * Serves other versions of a prompt to a share of sessions, e.g.
+ * { id: "shorter-format", prompt: "format", variants: [{ version: "v1", weight: 90 }, { version: "v2", weight: 10 }] }
+ */
+export interface PromptExperiment {
+	id: string;
+	prompt: PromptName;
+	variants: Array<{ version: string; weight: number }>;
+}
+
+export const EXPERIMENTS: PromptExperiment[] = [];
+
+export interface SystemPrompt {
+	text: string;
+	versions: Record<PromptName, string>;
+	// Variant served for each running experiment
+	experiments: Record<string, string>;
+	// Compact id of the composition, e.g. "persona@v1,format@v1,..."
+	version: string;
+}
+
+// 32-bit FNV-1a, stable across deploys and runtimes
+function hash(value: string): number {
+	let result = 0x811c9dc5;
+
+	for (let i = 0; i < value.length; i++) {
+		result ^= value.charCodeAt(i);
+		result = Math.imul(result, 0x01000193);
+	}
+
+	return result >>> 0;
+}
+
+/**
+ * Picks the variant of an experiment for a session. The same session always
+ * gets the same variant, and experiments are assigned independently.
+ */
+export function assignVariant(
+	experiment: PromptExperiment,
+	sessionKey: string,
+): string {
+	const total = experiment.variants.reduce(
+		(sum, variant) => sum + variant.weight,
+		0,
+	);
+	let bucket = hash(`${experiment.id}:${sessionKey}`) % total;
+
+	for (const variant of experiment.variants) {
+		if (bucket < variant.weight) {
+			return variant.version;
+		}
+		bucket -= variant.weight;
+	}
+
+	return DEFAULT_VERSIONS[experiment.prompt];
+}
+
+/**
+ * Composes the system prompt for a session from the default prompt versions
+ * and the variants its experiments assign
+ */
+export function composeSystemPrompt(
+	sessionKey: string,
+	experiments: PromptExperiment[] = EXPERIMENTS,
+): SystemPrompt {
+	const versions = { ...DEFAULT_VERSIONS };
+	const assigned: Record<string, string> = {};
+
+	for (const experiment of experiments) {
+		const version = assignVariant(experiment, sessionKey);
+
+		if (!PROMPTS[experiment.prompt][version]) {
+			throw new Error(
+				`Experiment ${experiment.id} uses unknown version ${experiment.prompt}@${version}`,
+			);
+		}
+
+		versions[experiment.prompt] = version;
+		assigned[experiment.id] = version;
+	}
+
+	const names = Object.keys(PROMPTS) as PromptName[];
+
+	return {
+		text: names
+			.map((name) => PROMPTS[name][versions[name]].trim())
+			.join("\n\n---\n\n"),
+		versions,
+		experiments: assigned,
+		version: names.map((name) => `${name}@${versions[name]}`).join(","),
+	};
+}
@@ -0,0 +1,43 @@
+// How to present prices, buying verdicts and price alerts
+const PRICE_INFORMATION = `
+## 💰 PRICE INFORMATION
+
+- Always include the **current price** as: \`S/ XXX.XX\`
+- Search results already include the price history analysis for each product. Use it as-is, never recompute it:
+  - **Lowest Price**: show it as \`Lowest recorded price: S/ XXX.XX\`
+  - **vs Lowest** / **vs Median**: % difference from the lowest and the typical (median) price
+  - **Savings**: when present, show it as given, e.g. \`Current price: S/ XXX.XX (Previous: S/ YYY.YY, Save: Z%)\`
+  - **Verdict**: the buying advice for the product (🟢 "Good time to buy", 🟡 "Consider waiting", 🔴 "Not a good time to buy", ⚪ "No price history"). Always show it and base your recommendation on it
+- Include a summary like: “Price has dropped 15% since last month” when the savings data supports it
+
+---
+
+`;
+
+const PRICE_ALERTS = `## 🔔 PRICE ALERTS
+
+When the verdict says it's better to wait, or the user wants to be told when a product gets cheaper (e.g. "avísame cuando el iPhone baje de S/ 3500"), offer a price alert. Ask for an email or WhatsApp number if the user hasn't given one, then call \`createPriceAlert\` with the product ID and the target price, or without a target price to be notified on a new historical minimum. Confirm the alert in one sentence.
+
+---
+
+## ✅ 
+DO NOT DISMISS PRODUCTS BASED ON OLD PRICE ASSUMPTIONS
+`;
+
+const CARD_PRICES = `## 💳 CARD PRICES
+
+- **Price** is what anyone pays. **Card Price** is only for customers with that store's credit card (e.g. "Oechsle card"). Never present a card price as the product's price
+- When a card price exists, show it after the price, naming the card: \`S/ XXX.XX con tarjeta Oechsle\`. Its verdict in parentheses applies only to card holders
+- Base the general recommendation on the price and its verdict. Recommend the card price only as an extra for users who have that card
+- If the user doesn't have the card or asks for prices without card (e.g. "solo precio sin tarjeta"), search again with \`cashOnly: true\` and never mention card prices
+
+---
+
+`;
+
+const v1 = `${PRICE_INFORMATION}${PRICE_ALERTS}`;
+
+// v2: card prices are shown apart from the price anyone pays
+const v2 = `${PRICE_INFORMATION}${CARD_PRICES}${PRICE_ALERTS}`;
+
+export const priceLogic: Record<string, string> = { v1, v2 };
@@ -0,0 +1,64 @@
+import { redis } from "@/lib/redis";
+import type { RateLimitTier } from "./tiers";
+
+export interface ApiKey {
+	// Short, non-secret id derived from the key, safe to log
+	id: string;
+	tier: Exclude<RateLimitTier, "anonymous">;
+	owner: string;
+	createdAt: string;
+}
+
+const KEY_PREFIX = "@compy/api-keys";
+
+// Only a hash of each key is stored, so a Redis dump doesn't leak usable keys
+async function hashApiKey(apiKey: string): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(apiKey),
+	);
+
+	return Buffer.from(digest).toString("hex");
+}
+
+/**
+ * Reads the API key from `Authorization: Bearer <key>` or `X-API-Key`
+ */
+export function getApiKeyFromRequest(req: Request): string | null {
+	const authorization = req.headers.get("authorization");
+
+	if (authorization?.startsWith("Bearer ")) {
+		return authorization.slice("Bearer ".length).trim() || null;
+	}
+
+	return req.headers.get("x-api-key")?.trim() || null;
+}
+
+export async function resolveApiKey(apiKey: string): Promise<ApiKey | null> {
+	return redis.get<ApiKey>(`${KEY_PREFIX}:${await hashApiKey(apiKey)}`);
+}
+
+/**
+ * Issues a new API key. The key itself is only returned here, never stored.
+ */
+export async function createApiKey(
+	tier: ApiKey["tier"],
+	owner: string,
+): Promise<{ apiKey: string; record: ApiKey }> {
+	const apiKey = `cpy_${Buffer.from(crypto.getRandomValues(new Uint8Array(24))).toString("hex")}`;
+	const hash = await hashApiKey(apiKey);
+	const record: ApiKey = {
+		id: hash.slice(0, 12),
+		tier,
+		owner,
+		createdAt: new Date().toISOString(),
+	};
+
+	await redis.set(`${KEY_PREFIX}:${hash}`, record);
+
+	return { apiKey, record };
+}
+
+export async function revokeApiKey(apiKey: string): Promise<boolean> {
+	return (await redis.del(`${KEY_PREFIX}:${await hashApiKey(apiKey)}`)) > 0;
+}
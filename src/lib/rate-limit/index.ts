@@ -0,0 +1,241 @@
+import { jsonError } from "@/lib/http";
+import { redis } from "@/lib/redis";
+import { Ratelimit } from "@upstash/ratelimit";
+import {
+	ANONYMOUS_IP_LIMITS,
+	type RateLimitTier,
+	TIER_LIMITS,
+	type TierLimits,
+} from "./tiers";
+
+export type { ApiKey } from "./api-keys";
+export {
+	createApiKey,
+	getApiKeyFromRequest,
+	resolveApiKey,
+	revokeApiKey,
+} from "./api-keys";
+export type { RateLimitTier, TierLimits } from "./tiers";
+export { ANONYMOUS_IP_LIMITS, RATE_LIMIT_TIERS, TIER_LIMITS } from "./tiers";
+
+export interface RateLimitSubject {
+	// Bucket key, e.g. the API key id or the anonymous client fingerprint
+	identifier: string;
+	tier: RateLimitTier;
+	// Client IP of anonymous callers, checked against a shared IP bucket too
+	ip?: string;
+}
+
+export interface RateLimitResult {
+	success: boolean;
+	// Which limit was hit when success is false
+	exceeded?: "requests" | "tokens";
+	tier: RateLimitTier;
+	limit: number;
+	remaining: number;
+	reset: number;
+	tokens: { limit: number; remaining: number; reset: number };
+	// Analytics writes to flush before the serverless function ends
+	pending: Promise<unknown>;
+}
+
+const TOKEN_USAGE_PREFIX = "@compy/chat/tokens";
+
+// A request window and token budget, keyed by the prefixes
+interface Bucket {
+	prefix: string;
+	tokenPrefix: string;
+	identifier: string;
+	limits: TierLimits;
+}
+
+// One sliding window limiter per bucket prefix, created on first use
+const limiters = new Map<string, Ratelimit>();
+
+function getLimiter({ prefix, limits }: Bucket): Ratelimit {
+	let limiter = limiters.get(prefix);
+
+	if (!limiter) {
+		limiter = new Ratelimit({
+			redis,
+			limiter: Ratelimit.slidingWindow(limits.requests, limits.window),
+			analytics: true,
+			prefix,
+		});
+		limiters.set(prefix, limiter);
+	}
+
+	return limiter;
+}
+
+/**
+ * The buckets a subject must pass: its tier's, plus the IP bucket for
+ * anonymous callers, whose sessions are free to create
+ */
+function getBuckets({ identifier, tier, ip }: RateLimitSubject): Bucket[] {
+	const buckets: Bucket[] = [
+		{
+			prefix: `@compy/chat/${tier}`,
+			tokenPrefix: TOKEN_USAGE_PREFIX,
+			identifier,
+			limits: TIER_LIMITS[tier],
+		},
+	];
+
+	if (tier === "anonymous" && ip) {
+		buckets.push({
+			prefix: "@compy/chat/anonymous-ip",
+			tokenPrefix: `${TOKEN_USAGE_PREFIX}/ip`,
+			identifier: ip,
+			limits: ANONYMOUS_IP_LIMITS,
+		});
+	}
+
+	return buckets;
+}
+
+// Token budgets are per UTC day
+function tokenUsageKey(bucket: Bucket, date = new Date()): string {
+	return `${bucket.tokenPrefix}:${bucket.identifier}:${date.toISOString().slice(0, 10)}`;
+}
+
+function nextUtcMidnight(): number {
+	const now = new Date();
+	return Date.UTC(
+		now.getUTCFullYear(),
+		now.getUTCMonth(),
+		now.getUTCDate() + 1,
+	);
+}
+
+/**
+ * Checks the request window and the daily token budget of one bucket. A
+ * request only counts against the window when the token budget allows it.
+ */
+async function checkBucket(
+	bucket: Bucket,
+	tier: RateLimitTier,
+): Promise<RateLimitResult> {
+	const { dailyTokens } = bucket.limits;
+	const used = (await redis.get<number>(tokenUsageKey(bucket))) ?? 0;
+	const tokens = {
+		limit: dailyTokens,
+		remaining: Math.max(dailyTokens - used, 0),
+		reset: nextUtcMidnight(),
+	};
+
+	if (tokens.remaining === 0) {
+		return {
+			success: false,
+			exceeded: "tokens",
+			tier,
+			limit: tokens.limit,
+			remaining: 0,
+			reset: tokens.reset,
+			tokens,
+			pending: Promise.resolve(),
+		};
+	}
+
+	const { success, limit, remaining, reset, pending } = await getLimiter(
+		bucket,
+	).limit(bucket.identifier);
+
+	return {
+		success,
+		exceeded: success ? undefined : "requests",
+		tier,
+		limit,
+		remaining,
+		reset,
+		tokens,
+		pending,
+	};
+}
+
+/**
+ * Checks every bucket of a subject in turn, stopping at the first exceeded
+ * one. Otherwise returns the tightest one, so the headers show what is left.
+ */
+export async function checkRateLimit(
+	subject: RateLimitSubject,
+): Promise<RateLimitResult> {
+	const results: RateLimitResult[] = [];
+
+	for (const bucket of getBuckets(subject)) {
+		const result = await checkBucket(bucket, subject.tier);
+		results.push(result);
+
+		if (!result.success) {
+			break;
+		}
+	}
+
+	const pending = Promise.all(results.map((result) => result.pending));
+	const failed = results.find((result) => !result.success);
+	const tightest = results.reduce((a, b) =>
+		b.remaining < a.remaining ? b : a,
+	);
+
+	return { ...(failed ?? tightest), pending };
+}
+
+/**
+ * Debits the tokens used by a completed response from the daily budgets
+ */
+export async function recordTokenUsage(
+	subject: RateLimitSubject,
+	totalTokens: number,
+): Promise<void> {
+	if (!Number.isFinite(totalTokens) || totalTokens <= 0) {
+		return;
+	}
+
+	const pipeline = redis.pipeline();
+
+	for (const bucket of getBuckets(subject)) {
+		const key = tokenUsageKey(bucket);
+		pipeline
+			.incrby(key, totalTokens)
+			// Keep the counter a bit past midnight for late-finishing streams
+			.expire(key, 2 * 24 * 60 * 60);
+	}
+
+	await pipeline.exec();
+}
+
+export function rateLimitHeaders(
+	result: RateLimitResult,
+): Record<string, string> {
+	return {
+		"X-RateLimit-Tier": result.tier,
+		"X-RateLimit-Limit": result.limit.toString(),
+		"X-RateLimit-Remaining": result.remaining.toString(),
+		"X-RateLimit-Reset": new Date(result.reset).toISOString(),
+		"X-RateLimit-Tokens-Limit": result.tokens.limit.toString(),
+		"X-RateLimit-Tokens-Remaining": result.tokens.remaining.toString(),
+		"X-RateLimit-Tokens-Reset": new Date(result.tokens.reset).toISOString(),
+	};
+}
+
+/**
+ * 429 response with the same payload whichever limit was exceeded
+ */
+export function rateLimitExceeded(result: RateLimitResult): Response {
+	return jsonError(
+		429,
+		"Too many requests",
+		result.exceeded === "tokens"
+			? "You've reached your daily usage limit."
+			: "You've reached the maximum number of requests allowed.",
+		{
+			exceeded: result.exceeded,
+			tier: result.tier,
+			limit: result.limit,
+			remaining: result.remaining,
+			reset: new Date(result.reset).toISOString(),
+			resetSeconds: Math.ceil((result.reset - Date.now()) / 1000),
+		},
+		rateLimitHeaders(result),
+	);
+}
@@ -0,0 +1,28 @@
+import type { Duration } from "@upstash/ratelimit";
+
+export type RateLimitTier = "anonymous" | "user" | "partner";
+
+export interface TierLimits {
+	// Requests allowed per sliding window
+	requests: number;
+	window: Duration;
+	// LLM tokens (prompt + completion, all steps) allowed per UTC day
+	dailyTokens: number;
+}
+
+export const TIER_LIMITS: Record<RateLimitTier, TierLimits> = {
+	anonymous: { requests: 20, window: "1 m", dailyTokens: 200_000 },
+	user: { requests: 40, window: "1 m", dailyTokens: 1_000_000 },
+	partner: { requests: 300, window: "1 m", dailyTokens: 20_000_000 },
+};
+
+export const RATE_LIMIT_TIERS = Object.keys(TIER_LIMITS) as RateLimitTier[];
+
+// Every anonymous request also counts against its IP, so a client dropping
+// its session cookie can't start over. Looser than a session, as offices and
+// mobile carriers put many users behind one IP.
+export const ANONYMOUS_IP_LIMITS: TierLimits = {
+	requests: 60,
+	window: "1 m",
+	dailyTokens: 1_000_000,
+};
@@ -0,0 +1,12 @@
+import { Redis } from "@upstash/redis";
+
+// Shared Upstash Redis client, configured from UPSTASH_REDIS_REST_URL/TOKEN
+export const redis = Redis.fromEnv();
+
+// Optional features such as caching are skipped when Redis is not configured
+export function isRedisConfigured(): boolean {
+	return Boolean(
+		(process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL) &&
+			(process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN),
+	);
+}
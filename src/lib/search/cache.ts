@@ -0,0 +1,199 @@
+import { isRedisConfigured, redis } from "@/lib/redis";
+import { foldText } from "@/lib/utils/text";
+import { after } from "next/server";
+import type { SearchParams, SearchResponse } from "./types";
+
+type SearchFunction = (params: SearchParams) => Promise<SearchResponse>;
+
+interface CacheEntry {
+	storedAt: number;
+	response: SearchResponse;
+}
+
+export type CacheOutcome = "hit" | "stale" | "miss";
+
+const KEY_PREFIX = "@compy/search-cache";
+const STATS_KEY = `${KEY_PREFIX}/stats`;
+
+// Prices change a few times a day, so a short TTL is plenty to absorb bursts
+const DEFAULT_TTL_SECONDS = 60;
+// Expired entries are still served for this long while they are refreshed
+const DEFAULT_STALE_SECONDS = 300;
+const REVALIDATE_LOCK_SECONDS = 30;
+
+// Unset, non-numeric or non-positive values fall back to the default
+function readSeconds(value: string | undefined, fallback: number): number {
+	const seconds = Number(value);
+	return Number.isFinite(seconds) && seconds > 0 ? seconds : fallback;
+}
+
+function getTtlSeconds(): number {
+	return readSeconds(process.env.SEARCH_CACHE_TTL_SECONDS, DEFAULT_TTL_SECONDS);
+}
+
+function getStaleSeconds(): number {
+	return readSeconds(
+		process.env.SEARCH_CACHE_STALE_SECONDS,
+		DEFAULT_STALE_SECONDS,
+	);
+}
+
+// JSON with sorted keys and without empty values, so equivalent params match
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+
+	if (value && typeof value === "object") {
+		return `{${Object.entries(value)
+			.filter(([, entry]) => entry !== undefined && entry !== null)
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`)
+			.join(",")}}`;
+	}
+
+	return JSON.stringify(value);
+}
+
+/**
+ * Cache key of a search: the folded query plus the filters, with list
+ * filters sorted so "Samsung, LG" and "lg, samsung" share an entry
+ */
+export async function searchCacheKey(params: SearchParams): Promise<string> {
+	const { filters = {} } = params;
+	const normalizeList = (values?: string[]) =>
+		values?.map(foldText).sort((a, b) => a.localeCompare(b));
+
+	const normalized = stableStringify({
+		...params,
+		query: foldText(params.query).replace(/\s+/g, " ").trim(),
+		filters: {
+			...filters,
+			brands: normalizeList(filters.brands),
+			stores: normalizeList(filters.stores),
+		},
+	});
+
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(normalized),
+	);
+
+	return `${KEY_PREFIX}:${Buffer.from(digest).toString("hex").slice(0, 32)}`;
+}
+
+/**
+ * Keeps background work alive after the response is sent, which serverless
+ * functions otherwise cut off. Outside a request, e.g. in scripts, the
+ * promise just runs on its own.
+ */
+function runInBackground(task: Promise<unknown>): void {
+	try {
+		after(task);
+	} catch {
+		// Not in a request scope
+	}
+}
+
+function countOutcome(outcome: CacheOutcome): void {
+	runInBackground(
+		redis.hincrby(STATS_KEY, outcome, 1).catch((error) => {
+			console.error("Failed to count search cache outcome:", error);
+		}),
+	);
+}
+
+async function store(key: string, response: SearchResponse): Promise<void> {
+	const entry: CacheEntry = { storedAt: Date.now(), response };
+	await redis.set(key, entry, { ex: getTtlSeconds() + getStaleSeconds() });
+}
+
+/**
+ * Refreshes a stale entry in the background. A short lock makes sure only
+ * one request revalidates a given search at a time; it is released once the
+ * refresh is done, whatever the outcome.
+ */
+function revalidate(key: string, params: SearchParams, search: SearchFunction) {
+	const lockKey = `${key}/lock`;
+
+	runInBackground(
+		redis
+			.set(lockKey, 1, { nx: true, ex: REVALIDATE_LOCK_SECONDS })
+			.then(async (locked) => {
+				if (!locked) {
+					return;
+				}
+
+				try {
+					await store(key, await search(params));
+				} finally {
+					await redis.del(lockKey);
+				}
+			})
+			.catch((error) => {
+				console.error("Failed to revalidate search cache:", error);
+			}),
+	);
+}
+
+/**
+ * Wraps a search function with a Redis cache. Fresh entries are served for
+ * SEARCH_CACHE_TTL_SECONDS, then served stale for SEARCH_CACHE_STALE_SECONDS
+ * while they are refreshed in the background. Set the TTL to 0 to disable the
+ * cache; it is also skipped when Redis is not configured or unreachable.
+ */
+export function withSearchCache(search: SearchFunction): SearchFunction {
+	return async (params) => {
+		const ttlSeconds = getTtlSeconds();
+
+		if (ttlSeconds <= 0 || !isRedisConfigured()) {
+			return search(params);
+		}
+
+		const key = await searchCacheKey(params);
+		let entry: CacheEntry | null = null;
+
+		try {
+			entry = await redis.get<CacheEntry>(key);
+		} catch (error) {
+			console.error("Failed to read search cache:", error);
+			return search(params);
+		}
+
+		if (entry) {
+			const fresh = Date.now() - entry.storedAt < ttlSeconds * 1000;
+
+			countOutcome(fresh ? "hit" : "stale");
+
+			if (!fresh) {
+				revalidate(key, params, search);
+			}
+
+			return entry.response;
+		}
+
+		countOutcome("miss");
+
+		const response = await search(params);
+
+		runInBackground(
+			store(key, response).catch((error) => {
+				console.error("Failed to write search cache:", error);
+			}),
+		);
+
+		return response;
+	};
+}
+
+export async function getSearchCacheStats(): Promise<
+	Record<CacheOutcome, number>
+> {
+	const stats = await redis.hgetall<Record<CacheOutcome, number>>(STATS_KEY);
+
+	return {
+		hit: Number(stats?.hit ?? 0),
+		stale: Number(stats?.stale ?? 0),
+		miss: Number(stats?.miss ?? 0),
+	};
+}
@@ -0,0 +1,91 @@
+import type { FacetCount, ProductDocument } from "./types";
+
+export interface PriceBucket {
+	key: string;
+	label: string;
+	min?: number;
+	max?: number;
+}
+
+// Fields faceted on every search, so the assistant can offer ways to narrow
+// down. They must be facetable in the collection schema, which "stores" isn't.
+export const FACET_FIELDS = ["brand", "categories.level3"];
+
+export const PRICE_FACET_FIELD = "bestprice";
+
+export const PRICE_BUCKETS: PriceBucket[] = [
+	{ key: "hasta_500", label: "Hasta S/ 500", max: 500 },
+	{ key: "de_500_a_1000", label: "S/ 500 - S/ 1000", min: 500, max: 1000 },
+	{ key: "de_1000_a_2000", label: "S/ 1000 - S/ 2000", min: 1000, max: 2000 },
+	{ key: "de_2000_a_5000", label: "S/ 2000 - S/ 5000", min: 2000, max: 5000 },
+	{ key: "mas_de_5000", label: "Más de S/ 5000", min: 5000 },
+];
+
+export const FACET_LABELS: Record<string, string> = {
+	brand: "Marca",
+	"categories.level3": "Categoría",
+	[PRICE_FACET_FIELD]: "Precio",
+};
+
+// Values shown per facet in tool results
+export const MAX_FACET_VALUES = 10;
+
+/**
+ * Typesense facet_by expression for the default fields plus the price ranges
+ */
+export function buildFacetBy(): string {
+	const ranges = PRICE_BUCKETS.map(
+		(bucket) => `${bucket.key}:[${bucket.min ?? 0}, ${bucket.max ?? ""}]`,
+	).join(", ");
+
+	return [...FACET_FIELDS, `${PRICE_FACET_FIELD}(${ranges})`].join(",");
+}
+
+export function getPriceBucket(price: number): PriceBucket | undefined {
+	return PRICE_BUCKETS.find(
+		(bucket) =>
+			(bucket.min === undefined || price >= bucket.min) &&
+			(bucket.max === undefined || price < bucket.max),
+	);
+}
+
+/**
+ * Counts the default facets over a set of documents, for backends that can't
+ * facet server-side
+ */
+export function countFacets(
+	documents: ProductDocument[],
+	getValues: (document: ProductDocument, field: string) => string[],
+): FacetCount[] {
+	const toFacetCount = (field: string, counts: Map<string, number>) => ({
+		field_name: field,
+		counts: [...counts.entries()]
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, MAX_FACET_VALUES)
+			.map(([value, count]) => ({ value, count, highlighted: value })),
+		stats: { total_values: counts.size },
+	});
+
+	const facets = FACET_FIELDS.map((field) => {
+		const counts = new Map<string, number>();
+
+		for (const document of documents) {
+			for (const value of new Set(getValues(document, field))) {
+				counts.set(value, (counts.get(value) ?? 0) + 1);
+			}
+		}
+
+		return toFacetCount(field, counts);
+	});
+
+	const priceCounts = new Map<string, number>();
+
+	for (const document of documents) {
+		const bucket = getPriceBucket(document.bestprice);
+		if (bucket) {
+			priceCounts.set(bucket.key, (priceCounts.get(bucket.key) ?? 0) + 1);
+		}
+	}
+
+	return [...facets, toFacetCount(PRICE_FACET_FIELD, priceCounts)];
+}
@@ -0,0 +1,174 @@
+import { getDocumentSpecs } from "@/lib/specs";
+import { foldText } from "@/lib/utils/text";
+import type {
+	FeatureConstraint,
+	ProductDocument,
+	SearchFilters,
+	SearchParams,
+} from "./types";
+
+// Tolerance when matching an exact numeric spec, so 55 matches 54.6"
+const EQUALS_TOLERANCE = 0.5;
+
+/**
+ * Quotes a value for Typesense filter_by. Backtick-quoted values may contain
+ * commas, spaces and operators; backticks themselves can't be escaped, so
+ * they are dropped.
+ */
+export function escapeFilterValue(value: string): string {
+	return `\`${value.replace(/`/g, "").trim()}\``;
+}
+
+function cleanValues(values: string[] | undefined): string[] {
+	return (values ?? [])
+		.map((value) => value.replace(/`/g, "").trim())
+		.filter(Boolean);
+}
+
+/**
+ * Translates the search params into a Typesense filter_by expression
+ */
+export function buildFilterBy({
+	priceMin,
+	priceMax,
+	filters = {},
+}: SearchParams): string | undefined {
+	const clauses = [];
+
+	if (priceMax) {
+		clauses.push(`bestprice:<${priceMax}`);
+	}
+
+	if (priceMin) {
+		clauses.push(`bestprice:>${priceMin}`);
+	}
+
+	// Brands are stored uppercase in the catalog
+	const brands = cleanValues(filters.brands).map((brand) =>
+		brand.toUpperCase(),
+	);
+	if (brands.length > 0) {
+		clauses.push(`brand:=[${brands.map(escapeFilterValue).join(",")}]`);
+	}
+
+	for (const level of ["level1", "level2", "level3"] as const) {
+		const [category] = cleanValues([filters.category?.[level] ?? ""]);
+		if (category) {
+			clauses.push(`categories.${level}:=${escapeFilterValue(category)}`);
+		}
+	}
+
+	const stores = cleanValues(filters.stores);
+	if (stores.length > 0) {
+		clauses.push(`stores:=[${stores.map(escapeFilterValue).join(",")}]`);
+	}
+
+	if (filters.minStores && Number.isInteger(filters.minStores)) {
+		clauses.push(`numtiendas:>=${filters.minStores}`);
+	}
+
+	return clauses.length > 0 ? clauses.join("&&") : undefined;
+}
+
+function includesFolded(values: string[], value: string | undefined): boolean {
+	return (
+		value !== undefined &&
+		values.some((candidate) => foldText(candidate) === foldText(value))
+	);
+}
+
+/**
+ * Checks a document against the brand, category, store and store-count
+ * filters. Used by backends that can't filter server-side and for semantic
+ * hits, whose metadata the vector filter only partially covers.
+ */
+export function matchesFilters(
+	document: ProductDocument,
+	filters: SearchFilters = {},
+): boolean {
+	const brands = cleanValues(filters.brands);
+	if (brands.length > 0 && !includesFolded(brands, document.brand)) {
+		return false;
+	}
+
+	for (const level of ["level1", "level2", "level3"] as const) {
+		const category = filters.category?.[level];
+		if (category && !includesFolded([category], document.categories?.[level])) {
+			return false;
+		}
+	}
+
+	const stores = cleanValues(filters.stores);
+	if (
+		stores.length > 0 &&
+		!(document.stores ?? []).some((store) => includesFolded(stores, store))
+	) {
+		return false;
+	}
+
+	if (filters.minStores && (document.numtiendas ?? 0) < filters.minStores) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Evaluates feature constraints against the canonical specs of a document.
+ * Most documents only carry a few specs, so a missing spec is "unknown"
+ * rather than a mismatch.
+ */
+export function matchFeatureConstraints(
+	document: ProductDocument,
+	constraints: FeatureConstraint[] = [],
+): "match" | "unknown" | "mismatch" {
+	if (constraints.length === 0) {
+		return "match";
+	}
+
+	const specs = getDocumentSpecs(document);
+	let unknown = false;
+
+	for (const constraint of constraints) {
+		const spec = specs.find((candidate) => candidate.key === constraint.key);
+
+		if (!spec) {
+			unknown = true;
+			continue;
+		}
+
+		if (typeof constraint.equals === "string") {
+			if (!foldText(spec.display).includes(foldText(constraint.equals))) {
+				return "mismatch";
+			}
+			continue;
+		}
+
+		if (spec.value === null) {
+			unknown = true;
+			continue;
+		}
+
+		// Ranges such as "50-59 pulgadas" match any value they contain
+		const low = spec.value;
+		const high = spec.max ?? spec.value;
+
+		if (
+			typeof constraint.equals === "number" &&
+			(constraint.equals < low - EQUALS_TOLERANCE ||
+				constraint.equals > high + EQUALS_TOLERANCE)
+		) {
+			return "mismatch";
+		}
+
+		if (constraint.min !== undefined && high < constraint.min) {
+			return "mismatch";
+		}
+
+		if (constraint.max !== undefined && low > constraint.max) {
+			return "mismatch";
+		}
+	}
+
+	return unknown ? "unknown" : "match";
+}
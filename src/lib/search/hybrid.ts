@@ -0,0 +1,133 @@
+import { isVectorIndexConfigured } from "@/lib/vector";
+import { matchFeatureConstraints, matchesFilters } from "./filters";
+import { getSearchProvider } from "./index";
+import { MAX_FETCH_WINDOW } from "./pagination";
+import { searchVectorIndex } from "./semantic";
+import type {
+	SearchHit,
+	SearchParams,
+	SearchProvider,
+	SearchResponse,
+} from "./types";
+
+// Standard reciprocal rank fusion constant, dampens the weight of top ranks
+const RRF_K = 60;
+const DEFAULT_PER_PAGE = 10;
+const FEATURE_OVERFETCH_FACTOR = 3;
+
+/**
+ * Fuses several ranked hit lists with reciprocal rank fusion, merging hits
+ * that share a product id. When a product appears in both lists the keyword
+ * document is kept because it carries the full Typesense fields.
+ */
+function fuseRankings(
+	rankings: Array<{ source: "keyword" | "semantic"; hits: SearchHit[] }>,
+): SearchHit[] {
+	const fused = new Map<string, SearchHit>();
+
+	for (const { source, hits } of rankings) {
+		hits.forEach((hit, rank) => {
+			const id = hit.document.id;
+			const score = 1 / (RRF_K + rank + 1);
+			const existing = fused.get(id);
+
+			if (existing) {
+				existing.fused_score = (existing.fused_score ?? 0) + score;
+				existing.sources = [...(existing.sources ?? []), source];
+				return;
+			}
+
+			fused.set(id, { ...hit, sources: [source], fused_score: score });
+		});
+	}
+
+	return [...fused.values()].sort(
+		(a, b) => (b.fused_score ?? 0) - (a.fused_score ?? 0),
+	);
+}
+
+/**
+ * Runs keyword (search provider) and semantic (vector index) searches in
+ * parallel and returns a single fused result set. If one side fails the other
+ * one is still used, so an outage of either backend only degrades relevance.
+ * The semantic side is skipped when no vector index is configured or
+ * `semantic` is false.
+ */
+export async function hybridSearch(
+	params: SearchParams,
+	provider: SearchProvider = getSearchProvider(),
+	{ semantic = true }: { semantic?: boolean } = {},
+): Promise<SearchResponse> {
+	const page = params.page ?? 1;
+	const perPage = params.perPage ?? DEFAULT_PER_PAGE;
+	const features = params.filters?.features ?? [];
+	// Both rankings are fetched from the top and fused before slicing the
+	// page, so later pages never repeat a product from an earlier one.
+	// Feature constraints are applied here, so fetch extra candidates to filter.
+	const fetchSize = Math.min(
+		page * perPage * (features.length > 0 ? FEATURE_OVERFETCH_FACTOR : 1),
+		MAX_FETCH_WINDOW,
+	);
+
+	const [keyword, vector] = await Promise.allSettled([
+		provider.search({ ...params, page: 1, perPage: fetchSize }),
+		semantic && isVectorIndexConfigured()
+			? searchVectorIndex({ ...params, perPage: fetchSize })
+			: Promise.resolve([]),
+	]);
+
+	if (keyword.status === "rejected" && vector.status === "rejected") {
+		throw keyword.reason;
+	}
+
+	if (keyword.status === "rejected") {
+		console.error("Keyword search failed:", keyword.reason);
+	}
+
+	if (vector.status === "rejected") {
+		console.error("Semantic search failed:", vector.reason);
+	}
+
+	const keywordHits = keyword.status === "fulfilled" ? keyword.value.hits : [];
+	const semanticHits = vector.status === "fulfilled" ? vector.value : [];
+
+	const fused = fuseRankings([
+		{ source: "keyword", hits: keywordHits },
+		{ source: "semantic", hits: semanticHits },
+	]).filter((hit) => matchesFilters(hit.document, params.filters));
+
+	// Products that meet every feature constraint first, then the ones whose
+	// specs are unknown; products that contradict a constraint are dropped
+	const matching = fused.filter(
+		(hit) => matchFeatureConstraints(hit.document, features) === "match",
+	);
+	const unknown = fused.filter(
+		(hit) => matchFeatureConstraints(hit.document, features) === "unknown",
+	);
+	const filtered = [...matching, ...unknown];
+	const hits = filtered.slice((page - 1) * perPage, page * perPage);
+
+	const semanticOnly = filtered.filter(
+		(hit) => !hit.sources?.includes("keyword"),
+	).length;
+	const dropped = fused.length - filtered.length;
+
+	return {
+		// Facets come from the keyword backend, the semantic side has no counts
+		facet_counts:
+			keyword.status === "fulfilled" ? keyword.value.facet_counts : [],
+		found:
+			keyword.status === "fulfilled"
+				? Math.max(
+						keyword.value.found + semanticOnly - dropped,
+						filtered.length,
+					)
+				: filtered.length,
+		hits,
+		request_params: {
+			per_page: perPage,
+			q: params.query,
+		},
+		page,
+	};
+}
@@ -0,0 +1,36 @@
+import { join } from "node:path";
+import { loadMemorySearchProvider } from "./memory";
+import type { SearchProvider } from "./types";
+import {
+	createTypesenseSearchProvider,
+	typesenseConfigFromEnv,
+} from "./typesense";
+
+let provider: SearchProvider | undefined;
+
+/**
+ * Returns the search backend selected by SEARCH_PROVIDER. Use "memory" with
+ * SEARCH_FIXTURE_PATH to run against a local catalog dump instead of Typesense.
+ */
+export function getSearchProvider(): SearchProvider {
+	if (provider) {
+		return provider;
+	}
+
+	if (process.env.SEARCH_PROVIDER === "memory") {
+		provider = loadMemorySearchProvider(
+			process.env.SEARCH_FIXTURE_PATH ??
+				join(
+					process.cwd(),
+					"src",
+					"labs",
+					"data",
+					"products-without-specs.json",
+				),
+		);
+	} else {
+		provider = createTypesenseSearchProvider(typesenseConfigFromEnv());
+	}
+
+	return provider;
+}
@@ -0,0 +1,177 @@
+import { readFileSync } from "node:fs";
+import { foldText } from "@/lib/utils/text";
+import { countFacets } from "./facets";
+import { matchesFilters } from "./filters";
+import type {
+	FacetCount,
+	FacetParams,
+	ProductDocument,
+	SearchHit,
+	SearchProvider,
+	SearchResponse,
+} from "./types";
+
+const DEFAULT_PER_PAGE = 10;
+
+function tokenize(text: string): string[] {
+	return foldText(text)
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(Boolean);
+}
+
+// Resolves dotted paths such as "categories.level3" against a document
+function getFieldValues(document: ProductDocument, field: string): string[] {
+	const value =
+		field in document
+			? document[field]
+			: field
+					.split(".")
+					.reduce<unknown>(
+						(current, key) =>
+							current && typeof current === "object"
+								? (current as Record<string, unknown>)[key]
+								: undefined,
+						document,
+					);
+
+	if (Array.isArray(value)) {
+		return value.map(String);
+	}
+
+	return value === undefined || value === null ? [] : [String(value)];
+}
+
+/**
+ * Scores a document against the query tokens. Title matches weigh more than
+ * matches in brand, model, categories or tags, mirroring the Typesense
+ * query_by_weights.
+ */
+function scoreDocument(document: ProductDocument, tokens: string[]): number {
+	const title = new Set(tokenize(document.title));
+	const rest = new Set(
+		tokenize(
+			[
+				document.brand,
+				document.repmodel,
+				document.categories?.level1,
+				document.categories?.level2,
+				document.categories?.level3,
+				...getFieldValues(document, "tags"),
+			].join(" "),
+		),
+	);
+
+	let score = 0;
+
+	for (const token of tokens) {
+		if (title.has(token)) {
+			score += 3;
+		} else if (rest.has(token)) {
+			score += 2;
+		} else {
+			return 0;
+		}
+	}
+
+	return score;
+}
+
+/**
+ * Search backend that keeps a catalog dump in memory. Accepts either a raw
+ * Typesense search response (like src/labs/data/products-without-specs.json)
+ * or a plain array of documents.
+ */
+export function createMemorySearchProvider(
+	dump: SearchResponse | ProductDocument[],
+): SearchProvider {
+	const documents = Array.isArray(dump)
+		? dump
+		: dump.hits.map((hit) => hit.document);
+
+	return {
+		search: async ({
+			query,
+			priceMin,
+			priceMax,
+			page = 1,
+			perPage = DEFAULT_PER_PAGE,
+			filters,
+			facets,
+		}) => {
+			const tokens = query.trim() === "*" ? [] : tokenize(query);
+
+			const hits: SearchHit[] = documents
+				.filter((document) => !priceMax || document.bestprice < priceMax)
+				.filter((document) => !priceMin || document.bestprice > priceMin)
+				.filter((document) => matchesFilters(document, filters))
+				.map((document) => ({
+					document,
+					text_match: tokens.length > 0 ? scoreDocument(document, tokens) : 1,
+				}))
+				.filter((hit) => (hit.text_match ?? 0) > 0)
+				.sort(
+					(a, b) =>
+						(b.text_match ?? 0) - (a.text_match ?? 0) ||
+						(Number(b.document.percent_offer) || 0) -
+							(Number(a.document.percent_offer) || 0),
+				);
+
+			return {
+				facet_counts: facets
+					? countFacets(
+							hits.map((hit) => hit.document),
+							getFieldValues,
+						)
+					: [],
+				found: hits.length,
+				hits: hits.slice((page - 1) * perPage, page * perPage),
+				out_of: documents.length,
+				page,
+				request_params: {
+					collection_name: "memory",
+					per_page: perPage,
+					q: query,
+				},
+				search_time_ms: 0,
+			};
+		},
+
+		facet: async ({
+			field,
+			query = "*",
+			maxValues = 100,
+		}: FacetParams): Promise<FacetCount> => {
+			const tokens = query.trim() === "*" ? [] : tokenize(query);
+			const counts = new Map<string, number>();
+
+			for (const document of documents) {
+				if (tokens.length > 0 && scoreDocument(document, tokens) === 0) {
+					continue;
+				}
+
+				for (const value of new Set(getFieldValues(document, field))) {
+					counts.set(value, (counts.get(value) ?? 0) + 1);
+				}
+			}
+
+			return {
+				field_name: field,
+				counts: [...counts.entries()]
+					.sort((a, b) => b[1] - a[1])
+					.slice(0, maxValues)
+					.map(([value, count]) => ({ value, count, highlighted: value })),
+				stats: { total_values: counts.size },
+			};
+		},
+
+		getById: async (id) =>
+			documents.find((document) => document.id === id) ?? null,
+	};
+}
+
+/**
+ * Loads a JSON catalog dump from disk into a memory search provider
+ */
+export function loadMemorySearchProvider(filePath: string): SearchProvider {
+	return createMemorySearchProvider(JSON.parse(readFileSync(filePath, "utf8")));
+}
@@ -0,0 +1,106 @@
+import { SPEC_KEYS } from "@/lib/specs";
+import { z } from "zod";
+import type { SearchParams } from "./types";
+
+// Hard cap on the page size, whatever the caller or the environment asks for
+export const MAX_PAGE_SIZE = 25;
+
+// Typesense rejects per_page above 250, which also bounds deep paging
+export const MAX_FETCH_WINDOW = 250;
+
+const DEFAULT_PAGE_SIZE = 10;
+
+function isValidPageSize(size: number | undefined): size is number {
+	return size !== undefined && Number.isFinite(size) && size >= 1;
+}
+
+function limitPageSize(size: number): number {
+	return Math.min(Math.floor(size), MAX_PAGE_SIZE);
+}
+
+export function getDefaultPageSize(): number {
+	const size = Number(process.env.SEARCH_PAGE_SIZE);
+
+	return isValidPageSize(size) ? limitPageSize(size) : DEFAULT_PAGE_SIZE;
+}
+
+export function clampPageSize(size: number | undefined): number {
+	return isValidPageSize(size) ? limitPageSize(size) : getDefaultPageSize();
+}
+
+// Everything a cursor pins down: the search itself, how to show the results
+// and the page to fetch
+type CursorParams = Omit<SearchParams, "facets"> & {
+	page: number;
+	perPage: number;
+	cashOnly?: boolean;
+};
+
+// Cursors come back from the model, so everything in them is checked again
+const cursorSchema = z.object({
+	query: z.string(),
+	priceMin: z.number().optional(),
+	priceMax: z.number().optional(),
+	page: z.number().int().positive(),
+	perPage: z.number().optional(),
+	filters: z
+		.object({
+			brands: z.array(z.string()).optional(),
+			category: z
+				.object({
+					level1: z.string().optional(),
+					level2: z.string().optional(),
+					level3: z.string().optional(),
+				})
+				.optional(),
+			stores: z.array(z.string()).optional(),
+			minStores: z.number().int().positive().optional(),
+			features: z
+				.array(
+					z.object({
+						key: z.enum(SPEC_KEYS),
+						min: z.number().optional(),
+						max: z.number().optional(),
+						equals: z.union([z.number(), z.string()]).optional(),
+					}),
+				)
+				.optional(),
+		})
+		.optional(),
+	cashOnly: z.boolean().optional(),
+});
+
+/**
+ * Encodes the query, filters and next page into an opaque cursor, so "show
+ * me more" always continues the exact same search
+ */
+export function encodeCursor(params: CursorParams): string {
+	return Buffer.from(JSON.stringify(params)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): CursorParams | null {
+	try {
+		const result = cursorSchema.safeParse(
+			JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")),
+		);
+
+		if (!result.success) {
+			return null;
+		}
+
+		return { ...result.data, perPage: clampPageSize(result.data.perPage) };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Whether a next page exists and can still be fetched within the fetch window
+ */
+export function hasNextPage(
+	found: number,
+	page: number,
+	perPage: number,
+): boolean {
+	return page * perPage < found && (page + 1) * perPage <= MAX_FETCH_WINDOW;
+}
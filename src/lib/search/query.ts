@@ -0,0 +1,237 @@
+import { type CanonicalSpecKey, UNIT_ALIASES } from "@/lib/specs/dictionary";
+import { NUMBER_PATTERN, foldText, parseLocaleNumber } from "@/lib/utils/text";
+import type { FeatureConstraint } from "./types";
+
+export interface NormalizedQuery {
+	original: string;
+	normalized: string;
+	// Spec constraints parsed from measures in the query, e.g. "16gb ram"
+	features: FeatureConstraint[];
+}
+
+// Catalog terms for common synonyms, applied after singularization
+const SYNONYMS: Record<string, string> = {
+	smartphone: "celular",
+	movil: "celular",
+	telefono: "celular",
+	tele: "televisor",
+	tv: "televisor",
+	television: "televisor",
+	notebook: "laptop",
+	portatil: "laptop",
+	auricular: "audifono",
+	refri: "refrigeradora",
+	refrigerador: "refrigeradora",
+	nevera: "refrigeradora",
+	lavaropa: "lavadora",
+};
+
+const BRAND_MISSPELLINGS: Record<string, string> = {
+	samsumg: "samsung",
+	samgung: "samsung",
+	sansung: "samsung",
+	samsun: "samsung",
+	xaomi: "xiaomi",
+	xiomi: "xiaomi",
+	xiaomy: "xiaomi",
+	shaomi: "xiaomi",
+	aple: "apple",
+	iphon: "iphone",
+	ifone: "iphone",
+	aifon: "iphone",
+	motorolla: "motorola",
+	motorla: "motorola",
+	huawey: "huawei",
+	hawei: "huawei",
+	lenobo: "lenovo",
+	electrolus: "electrolux",
+	hisence: "hisense",
+	hissense: "hisense",
+	phillips: "philips",
+	panasonik: "panasonic",
+};
+
+// Brands are never singularized: the correct spellings of the misspellings
+// above, plus brands ending in "s" ("adidas" is not the plural of "adida")
+const BRANDS = new Set([
+	...Object.values(BRAND_MISSPELLINGS),
+	"adidas",
+	"asus",
+	"crocs",
+	"genius",
+	"olympus",
+	"siemens",
+	"skechers",
+	"thomas",
+	"vans",
+]);
+
+// Words that end in "s" but are already singular
+const SINGULAR_WORDS = new Set([
+	"airpods",
+	"analisis",
+	"buds",
+	"crisis",
+	"express",
+	"gas",
+	"glass",
+	"gris",
+	"ios",
+	"jeans",
+	"lavavajillas",
+	"lumens",
+	"lunes",
+	"macos",
+	"mas",
+	"menos",
+	"microondas",
+	"nits",
+	"paraguas",
+	"pies",
+	"pixels",
+	"plus",
+	"seis",
+	"series",
+	"tres",
+	"windows",
+]);
+
+// Units worth a filter, and the spec they constrain. Weights are left out:
+// "lavadora 10 kg" is a washing capacity, not the weight of the product.
+const UNIT_SPECS: Record<string, CanonicalSpecKey | undefined> = {
+	pulgadas: "screen_size",
+	Hz: "refresh_rate",
+	mAh: "battery",
+	W: "power",
+	L: "capacity",
+};
+
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES)
+	.sort((a, b) => b.length - a.length)
+	.map((unit) => unit.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+	.join("|");
+
+// A number and its unit, with an optional leading "de" and trailing "(de) ram"
+const MEASURE = new RegExp(
+	`(?:\\bde\\s+)?(?<![\\w.,])(${NUMBER_PATTERN})\\s*(${UNIT_PATTERN})(?![a-z\\d])(\\s+(?:de\\s+)?ram\\b)?`,
+	"g",
+);
+
+// Larger amounts of GB are storage, smaller ones RAM ("laptop 16gb", "celular 256gb")
+const MAX_RAM_GB = 32;
+
+/**
+ * Reduces a Spanish word to its singular: "televisores" → "televisor",
+ * "lápices" → "lapiz", "laptops" → "laptop"
+ */
+export function singularize(word: string): string {
+	if (
+		word.length < 4 ||
+		/\d/.test(word) ||
+		SINGULAR_WORDS.has(word) ||
+		BRANDS.has(word)
+	) {
+		return word;
+	}
+
+	if (word.endsWith("ces")) {
+		return `${word.slice(0, -3)}z`;
+	}
+
+	if (/[rlndzj]es$/.test(word)) {
+		return word.slice(0, -2);
+	}
+
+	if (word.endsWith("s") && !word.endsWith("ss")) {
+		return word.slice(0, -1);
+	}
+
+	return word;
+}
+
+function toFeature(
+	value: number,
+	spelling: string,
+	isRam: boolean,
+): FeatureConstraint | null {
+	const alias = UNIT_ALIASES[spelling];
+
+	if (!alias) {
+		return null;
+	}
+
+	const amount = value * alias.factor;
+
+	if (alias.unit === "GB") {
+		return {
+			key: isRam || amount <= MAX_RAM_GB ? "ram" : "storage",
+			min: amount,
+		};
+	}
+
+	// Washing machines are sold by kg of capacity
+	if (alias.unit === "kg") {
+		return { key: "capacity", min: amount };
+	}
+
+	const key = UNIT_SPECS[alias.unit];
+
+	if (!key) {
+		return null;
+	}
+
+	return key === "screen_size" ? { key, equals: amount } : { key, min: amount };
+}
+
+/**
+ * Normalizes a product query before it reaches the search backend: folds
+ * accents, turns measures into spec constraints, singularizes words and maps
+ * synonyms and misspelled brands to the terms used in the catalog
+ */
+export function normalizeQuery(query: string): NormalizedQuery {
+	const features: FeatureConstraint[] = [];
+
+	if (query.trim() === "*") {
+		return { original: query, normalized: "*", features };
+	}
+
+	const withoutMeasures = foldText(query).replace(
+		MEASURE,
+		(match, number: string, spelling: string, ram?: string) => {
+			const value = parseLocaleNumber(number);
+			const feature = toFeature(value, spelling, Boolean(ram));
+
+			if (!feature || features.some(({ key }) => key === feature.key)) {
+				return match;
+			}
+
+			features.push(feature);
+
+			// Screen sizes stay in the query, product titles usually include them
+			return feature.key === "screen_size" ? ` ${number} ` : " ";
+		},
+	);
+
+	const words = withoutMeasures
+		.split(/[^\p{L}\p{N}.-]+/u)
+		.filter(Boolean)
+		.map((word) => {
+			const singular = singularize(word);
+			// English plurals such as "smartphones" only drop the "s"
+			const withoutS = word.replace(/s$/, "");
+
+			return (
+				BRAND_MISSPELLINGS[singular] ??
+				SYNONYMS[singular] ??
+				SYNONYMS[withoutS] ??
+				BRAND_MISSPELLINGS[word] ??
+				singular
+			);
+		});
+
+	return {
+		original: query,
+		normalized: [...new Set(words)].join(" ") || foldText(query).trim(),
+		features,
+	};
+}
@@ -0,0 +1,139 @@
+import { getVectorIndex } from "@/lib/vector";
+import type { ProductDocument, SearchHit, SearchParams } from "./types";
+
+// One store listing of a product, from the SKUs of the catalog export
+export interface ProductStoreMetadata {
+	store: string;
+	// Best cash price at the store
+	price: number;
+	url: string;
+	// Regular price before discounts
+	list_price?: number;
+	// Price paying with the store's credit card, when it has one
+	price_card?: number | null;
+	stock?: number;
+}
+
+// Metadata written to the vector index by src/labs/populate.ts
+export interface ProductVectorMetadata {
+	title: string;
+	brand: string;
+	model: string;
+	price: number;
+	category_level1: string;
+	category_level2: string;
+	category_level3: string;
+	image_url: string;
+	product_url: string;
+	stores?: ProductStoreMetadata[];
+	// Lowest price paying with a store's credit card, and the store issuing it
+	price_card?: number | null;
+	price_card_store?: string;
+	price_history?: {
+		current: number;
+		previous: number;
+		minimum: number;
+		percent_save?: number;
+	};
+	[key: string]: unknown;
+}
+
+const DEFAULT_TOP_K = 10;
+
+/**
+ * Maps vector metadata into the same document shape Typesense returns, so
+ * semantic-only hits can be formatted like any other search result
+ */
+function toProductDocument(
+	id: string,
+	metadata: ProductVectorMetadata,
+): ProductDocument {
+	const stores = [...new Set(metadata.stores?.map((s) => s.store) ?? [])];
+
+	return {
+		id,
+		title: metadata.title,
+		brand: metadata.brand,
+		repmodel: metadata.model,
+		bestprice: metadata.price,
+		price_card: metadata.price_card,
+		price_card_store: metadata.price_card_store,
+		categories: {
+			level1: metadata.category_level1,
+			level2: metadata.category_level2,
+			level3: metadata.category_level3,
+		},
+		metrics: metadata.price_history
+			? {
+					prev_price: metadata.price_history.previous,
+					price_minimum: metadata.price_history.minimum,
+					percent_save: metadata.price_history.percent_save,
+					isminimum:
+						metadata.price_history.current <= metadata.price_history.minimum,
+				}
+			: undefined,
+		numtiendas: stores.length,
+		stores,
+		images: metadata.image_url ? [metadata.image_url] : [],
+		url: metadata.product_url,
+		url_compy: `https://compy.pe/galeria/producto/${id}`,
+	};
+}
+
+// Quotes a string for the vector metadata filter, dropping quote characters
+function quoteFilterValue(value: string): string {
+	return `'${value.replace(/['"\\]/g, "").trim()}'`;
+}
+
+/**
+ * Semantic search over the product contexts embedded in the Upstash vector index
+ */
+export async function searchVectorIndex({
+	query,
+	priceMin,
+	priceMax,
+	perPage = DEFAULT_TOP_K,
+	filters: searchFilters = {},
+}: SearchParams): Promise<SearchHit[]> {
+	const filters = [];
+
+	if (priceMax) {
+		filters.push(`price < ${priceMax}`);
+	}
+
+	if (priceMin) {
+		filters.push(`price > ${priceMin}`);
+	}
+
+	const brands = (searchFilters.brands ?? [])
+		.map(quoteFilterValue)
+		.filter((brand) => brand !== "''");
+	if (brands.length > 0) {
+		filters.push(
+			`brand IN (${brands.map((brand) => brand.toUpperCase()).join(", ")})`,
+		);
+	}
+
+	for (const level of ["level1", "level2", "level3"] as const) {
+		const category = searchFilters.category?.[level];
+		if (category) {
+			filters.push(`category_${level} = ${quoteFilterValue(category)}`);
+		}
+	}
+
+	const results = await getVectorIndex().query<ProductVectorMetadata>({
+		data: query,
+		topK: perPage,
+		includeMetadata: true,
+		...(filters.length > 0 && { filter: filters.join(" AND ") }),
+	});
+
+	return results
+		.filter((result) => result.metadata)
+		.map((result) => ({
+			document: toProductDocument(
+				String(result.id),
+				result.metadata as ProductVectorMetadata,
+			),
+		}));
+}
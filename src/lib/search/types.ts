@@ -0,0 +1,158 @@
+import type { PriceInsight } from "@/lib/price-insight";
+import type { CanonicalSpecKey } from "@/lib/specs";
+
+// Shape of the documents stored in the Typesense products collection
+export interface ProductDocument {
+	id: string;
+	active?: boolean;
+	bestprice: number;
+	brand: string;
+	title: string;
+	repmodel: string;
+	categories?: {
+		level1: string;
+		level2: string;
+		level3: string;
+	};
+	metrics?: {
+		percent_offer?: number;
+		median_hist?: number;
+		prev_price?: number;
+		amt_change?: number;
+		amt_change_text?: string;
+		percent_change?: number;
+		price_minimum?: number;
+		isminimum?: boolean;
+		percent_save?: number;
+	};
+	// Lowest price paying with a store's credit card, and the store issuing it
+	price_card?: number | null;
+	price_card_store?: string;
+	numtiendas?: number;
+	topstore?: string;
+	stores?: string[];
+	images?: string[];
+	url_compy?: string;
+	url: string;
+	[key: string]: unknown;
+}
+
+export interface SearchHit {
+	document: ProductDocument;
+	text_match?: number;
+	// Where the hit came from once keyword and semantic results are fused
+	sources?: Array<"keyword" | "semantic">;
+	// Reciprocal rank fusion score, only set on fused results
+	fused_score?: number;
+}
+
+export interface FacetCount {
+	field_name: string;
+	counts: Array<{ value: string; count: number; highlighted?: string }>;
+	stats?: { total_values?: number };
+}
+
+export interface SearchResponse {
+	facet_counts: FacetCount[];
+	found: number;
+	hits: SearchHit[];
+	request_params: {
+		collection_name?: string;
+		per_page: number;
+		q: string;
+	};
+	page: number;
+	out_of?: number;
+	search_time_ms?: number;
+}
+
+// A constraint on a canonical spec, e.g. RAM >= 16 or screen size = 55
+export interface FeatureConstraint {
+	key: CanonicalSpecKey;
+	min?: number;
+	max?: number;
+	equals?: number | string;
+}
+
+export interface SearchFilters {
+	brands?: string[];
+	category?: {
+		level1?: string;
+		level2?: string;
+		level3?: string;
+	};
+	stores?: string[];
+	minStores?: number;
+	// Not indexed by the backends, applied to the results by hybridSearch
+	features?: FeatureConstraint[];
+}
+
+export interface SearchParams {
+	query: string;
+	priceMin?: number;
+	priceMax?: number;
+	// 1-based page number
+	page?: number;
+	perPage?: number;
+	filters?: SearchFilters;
+	// Also return counts for the default facets (brand, category, price)
+	facets?: boolean;
+}
+
+export interface FacetParams {
+	field: string;
+	query?: string;
+	maxValues?: number;
+}
+
+/**
+ * A product search backend. The chat tools only talk to this interface, so
+ * the live Typesense cluster can be swapped for a local fixture.
+ */
+export interface SearchProvider {
+	search(params: SearchParams): Promise<SearchResponse>;
+	facet(params: FacetParams): Promise<FacetCount>;
+	getById(id: string): Promise<ProductDocument | null>;
+}
+
+// A product as returned to the chat UI by the search tools
+export interface ProductResult {
+	id: string;
+	title: string;
+	brand: string;
+	model: string;
+	price: number;
+	image_url?: string;
+	product_url: string;
+	stores: string[];
+	store_count: number;
+	features: Record<string, string>;
+	insight: PriceInsight;
+}
+
+export interface ProductSearchResult {
+	products: ProductResult[];
+	summary: {
+		total_found: number;
+		results_count: number;
+		search_query: string;
+		// Query as written by the model, when normalization changed it
+		original_query?: string;
+		page: number;
+		per_page: number;
+		total_pages: number;
+		// Results left after this page
+		remaining: number;
+		// Opaque cursor for the next page, absent on the last reachable page
+		next_cursor?: string;
+		// Card prices were left out of the products
+		cash_only: boolean;
+	};
+	facets: Array<{
+		field: string;
+		label: string;
+		values: Array<{ value: string; label: string; count: number }>;
+	}>;
+	// Compact markdown version of the results, the only part sent to the LLM
+	text: string;
+}
@@ -0,0 +1,148 @@
+import { MAX_FACET_VALUES, buildFacetBy } from "./facets";
+import { buildFilterBy } from "./filters";
+import type {
+	FacetCount,
+	FacetParams,
+	ProductDocument,
+	SearchParams,
+	SearchProvider,
+	SearchResponse,
+} from "./types";
+
+const DEFAULT_PER_PAGE = 10;
+
+export interface TypesenseConfig {
+	host: string;
+	collection: string;
+	apiKey: string;
+	timeoutMs: number;
+}
+
+/**
+ * Reads the Typesense connection settings from the environment
+ */
+export function typesenseConfigFromEnv(): TypesenseConfig {
+	return {
+		host: process.env.TYPESENSE_HOST ?? "https://typesense2.compy.pe",
+		collection: process.env.TYPESENSE_COLLECTION ?? "products",
+		apiKey: process.env.TYPESENSE_API_KEY ?? "",
+		timeoutMs: Number(process.env.TYPESENSE_TIMEOUT_MS ?? 5000),
+	};
+}
+
+/**
+ * Keyword search backed by a Typesense products collection
+ */
+export function createTypesenseSearchProvider(
+	config: TypesenseConfig,
+): SearchProvider {
+	const collectionUrl = `${config.host.replace(/\/$/, "")}/collections/${config.collection}`;
+
+	const request = (path: string) => {
+		const myHeaders = new Headers();
+		myHeaders.append("X-TYPESENSE-API-KEY", config.apiKey);
+
+		return fetch(`${collectionUrl}${path}`, {
+			method: "GET",
+			headers: myHeaders,
+			redirect: "follow",
+			signal: AbortSignal.timeout(config.timeoutMs),
+		});
+	};
+
+	const search = async (
+		searchParams: URLSearchParams,
+	): Promise<SearchResponse> => {
+		const response = await request(
+			`/documents/search?${searchParams.toString()}`,
+		);
+
+		if (!response.ok) {
+			throw new Error(
+				`Typesense search failed with status ${response.status}: ${await response.text()}`,
+			);
+		}
+
+		return response.json();
+	};
+
+	return {
+		search: (params: SearchParams) => {
+			const searchParams = new URLSearchParams({
+				q: params.query,
+				query_by: "title_infix,combined_text",
+				query_by_weights: "3,2",
+				sort_by: "top:desc,percent_offer:desc",
+				per_page: (params.perPage ?? DEFAULT_PER_PAGE).toString(),
+				page: (params.page ?? 1).toString(),
+			});
+
+			const filterBy = buildFilterBy(params);
+
+			if (filterBy) {
+				searchParams.set("filter_by", filterBy);
+			}
+
+			if (!params.facets) {
+				return search(searchParams);
+			}
+
+			const facetParams = new URLSearchParams(searchParams);
+			facetParams.set("facet_by", buildFacetBy());
+			facetParams.set("max_facet_values", MAX_FACET_VALUES.toString());
+
+			// A rejected facet shouldn't cost the results, retry without facets.
+			// Timeouts aren't retried, the second attempt would likely time out too.
+			return search(facetParams).catch((error) => {
+				if (error instanceof Error && error.name === "TimeoutError") {
+					throw error;
+				}
+
+				console.warn(
+					"Typesense faceted search failed, retrying without facets:",
+					error,
+				);
+				return search(searchParams);
+			});
+		},
+
+		facet: async ({
+			field,
+			query = "*",
+			maxValues = 100,
+		}: FacetParams): Promise<FacetCount> => {
+			const data = await search(
+				new URLSearchParams({
+					q: query,
+					query_by: "title",
+					facet_by: field,
+					per_page: "0",
+					max_facet_values: maxValues.toString(),
+				}),
+			);
+
+			return (
+				data.facet_counts.find((facet) => facet.field_name === field) ?? {
+					field_name: field,
+					counts: [],
+				}
+			);
+		},
+
+		getById: async (id: string): Promise<ProductDocument | null> => {
+			const response = await request(`/documents/${encodeURIComponent(id)}`);
+
+			if (response.status === 404) {
+				return null;
+			}
+
+			if (!response.ok) {
+				throw new Error(
+					`Typesense document fetch failed with status ${response.status}: ${await response.text()}`,
+				);
+			}
+
+			return response.json();
+		},
+	};
+}
@@ -0,0 +1,159 @@
+export type SpecUnit = "GB" | "pulgadas" | "W" | "kg" | "Hz" | "mAh" | "L";
+
+export type CanonicalSpecKey =
+	| "ram"
+	| "storage"
+	| "capacity"
+	| "screen_size"
+	| "resolution"
+	| "refresh_rate"
+	| "technology"
+	| "processor"
+	| "operating_system"
+	| "battery"
+	| "power"
+	| "weight"
+	| "color";
+
+export interface SpecAttribute {
+	key: CanonicalSpecKey;
+	label: string;
+	// Unit assumed when a numeric value comes without one
+	unit?: SpecUnit;
+	// Lowercase, accent-free store spec keys that map to this attribute
+	aliases: string[];
+	betterWhen?: "higher" | "lower";
+}
+
+/**
+ * Canonical spec attributes and the store-specific keys that map to them.
+ * Stores name the same spec differently ("Memoria Ram", "RAM", "Memoria RAM
+ * instalada"), so matching is done on these aliases.
+ */
+export const SPEC_ATTRIBUTES: SpecAttribute[] = [
+	{
+		key: "ram",
+		label: "RAM",
+		unit: "GB",
+		aliases: ["memoria ram", "ram", "memoria ram instalada"],
+		betterWhen: "higher",
+	},
+	{
+		key: "storage",
+		label: "Almacenamiento",
+		unit: "GB",
+		aliases: [
+			"almacenamiento",
+			"memoria interna",
+			"capacidad de almacenamiento",
+			"disco duro",
+			"disco solido",
+			"ssd",
+		],
+		betterWhen: "higher",
+	},
+	{
+		key: "capacity",
+		label: "Capacidad",
+		aliases: ["capacidad", "capacidad total", "capacidad de lavado"],
+		betterWhen: "higher",
+	},
+	{
+		key: "screen_size",
+		label: "Pantalla",
+		unit: "pulgadas",
+		aliases: [
+			"tamano de la pantalla",
+			"tamano pantalla",
+			"tamano de pantalla",
+			"pulgadas",
+			"rango pulgadas",
+		],
+		betterWhen: "higher",
+	},
+	{
+		key: "resolution",
+		label: "Resolución",
+		aliases: ["resolucion de imagen", "resolucion de pantalla", "resolucion"],
+	},
+	{
+		key: "refresh_rate",
+		label: "Tasa de refresco",
+		unit: "Hz",
+		aliases: [
+			"tasa de refresco",
+			"frecuencia de actualizacion",
+			"frecuencia de refresco",
+		],
+		betterWhen: "higher",
+	},
+	{
+		key: "technology",
+		label: "Tecnología",
+		aliases: ["tecnologia", "tecnologia de pantalla", "tipo de pantalla"],
+	},
+	{
+		key: "processor",
+		label: "Procesador",
+		aliases: ["procesador", "modelo del procesador"],
+	},
+	{
+		key: "operating_system",
+		label: "Sistema operativo",
+		aliases: ["sistema operativo"],
+	},
+	{
+		key: "battery",
+		label: "Batería",
+		unit: "mAh",
+		aliases: ["bateria", "capacidad de bateria", "capacidad de la bateria"],
+		betterWhen: "higher",
+	},
+	{
+		key: "power",
+		label: "Potencia",
+		unit: "W",
+		aliases: ["potencia", "potencia de parlantes", "potencia de salida"],
+		betterWhen: "higher",
+	},
+	{
+		key: "weight",
+		label: "Peso",
+		unit: "kg",
+		aliases: ["peso", "peso del producto"],
+		betterWhen: "lower",
+	},
+	{
+		key: "color",
+		label: "Color",
+		aliases: ["color", "color principal"],
+	},
+];
+
+// Spellings of each unit as they show up in store spec values
+export const UNIT_ALIASES: Record<string, { unit: SpecUnit; factor: number }> =
+	{
+		gb: { unit: "GB", factor: 1 },
+		gigas: { unit: "GB", factor: 1 },
+		tb: { unit: "GB", factor: 1024 },
+		mb: { unit: "GB", factor: 1 / 1024 },
+		pulgadas: { unit: "pulgadas", factor: 1 },
+		pulgada: { unit: "pulgadas", factor: 1 },
+		pulg: { unit: "pulgadas", factor: 1 },
+		'"': { unit: "pulgadas", factor: 1 },
+		"''": { unit: "pulgadas", factor: 1 },
+		"”": { unit: "pulgadas", factor: 1 },
+		w: { unit: "W", factor: 1 },
+		watts: { unit: "W", factor: 1 },
+		vatios: { unit: "W", factor: 1 },
+		kg: { unit: "kg", factor: 1 },
+		kilos: { unit: "kg", factor: 1 },
+		gr: { unit: "kg", factor: 1 / 1000 },
+		gramos: { unit: "kg", factor: 1 / 1000 },
+		hz: { unit: "Hz", factor: 1 },
+		mah: { unit: "mAh", factor: 1 },
+		l: { unit: "L", factor: 1 },
+		lt: { unit: "L", factor: 1 },
+		lts: { unit: "L", factor: 1 },
+		litros: { unit: "L", factor: 1 },
+	};
@@ -0,0 +1,206 @@
+import { NUMBER_PATTERN, foldText, parseLocaleNumber } from "@/lib/utils/text";
+import {
+	type CanonicalSpecKey,
+	SPEC_ATTRIBUTES,
+	type SpecAttribute,
+	type SpecUnit,
+	UNIT_ALIASES,
+} from "./dictionary";
+
+export type { CanonicalSpecKey, SpecAttribute, SpecUnit } from "./dictionary";
+export { SPEC_ATTRIBUTES } from "./dictionary";
+
+export interface NormalizedSpec {
+	// Canonical key, or the folded store key when the spec is not in the dictionary
+	key: CanonicalSpecKey | string;
+	label: string;
+	raw: string;
+	// Numeric value in the canonical unit; the lower bound for ranges
+	value: number | null;
+	// Upper bound for ranges such as "50-59 pulgadas", Infinity for "más de 60"
+	max?: number;
+	unit?: SpecUnit;
+	display: string;
+}
+
+// Placeholder value stores use for specs they don't fill in
+const NOT_SPECIFIED = "no especifica";
+
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES)
+	.concat("g")
+	.sort((a, b) => b.length - a.length)
+	.map((unit) => unit.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+	.join("|");
+
+const NUMBER_WITH_UNIT = new RegExp(
+	`(?<![a-z\\d.,])(${NUMBER_PATTERN})\\s*(${UNIT_PATTERN})?(?![a-z])`,
+	"g",
+);
+
+// Matched longest first, so "memoria ram" wins over a shorter alias. Aliases
+// only match whole words, so "ram" isn't found in "programas" or "frame".
+const ALIASES_BY_LENGTH = SPEC_ATTRIBUTES.flatMap((attribute) =>
+	attribute.aliases.map((alias) => ({
+		alias,
+		attribute,
+		pattern: new RegExp(
+			`(?<![\\p{L}\\p{N}])${alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\p{L}\\p{N}])`,
+			"u",
+		),
+	})),
+).sort((a, b) => b.alias.length - a.alias.length);
+
+// Canonical keys as a non-empty tuple, for zod enums
+export const SPEC_KEYS = SPEC_ATTRIBUTES.map((attribute) => attribute.key) as [
+	CanonicalSpecKey,
+	...CanonicalSpecKey[],
+];
+
+export function getSpecAttribute(
+	key: CanonicalSpecKey | string,
+): SpecAttribute | undefined {
+	return SPEC_ATTRIBUTES.find((attribute) => attribute.key === key);
+}
+
+/**
+ * Maps a store-specific spec key ("Tamaño de la Pantalla", "Memoria Ram") to
+ * its canonical attribute. Exact alias matches win; otherwise the longest
+ * alias found as whole words in the key is used.
+ */
+export function findSpecAttribute(storeKey: string): SpecAttribute | undefined {
+	const key = foldText(storeKey).replace(/^f\./, "").trim();
+
+	return (
+		ALIASES_BY_LENGTH.find(({ alias }) => alias === key)?.attribute ??
+		ALIASES_BY_LENGTH.find(({ pattern }) => pattern.test(key))?.attribute
+	);
+}
+
+function formatNumber(value: number): string {
+	return Number.isInteger(value) ? value.toString() : value.toFixed(1);
+}
+
+function resolveUnit(
+	spelling: string | undefined,
+	expected: SpecUnit | undefined,
+): { unit?: SpecUnit; factor: number } {
+	if (!spelling) {
+		return { unit: expected, factor: 1 };
+	}
+
+	// A bare "g" is grams for weights and gigabytes everywhere else
+	if (spelling === "g") {
+		return expected === "kg"
+			? { unit: "kg", factor: 1 / 1000 }
+			: { unit: "GB", factor: 1 };
+	}
+
+	return UNIT_ALIASES[spelling];
+}
+
+/**
+ * Parses a raw store value into a number and unit: "8GB RAM", "8 Gb" and
+ * "8 GB" all become 8 GB. Returns null for "NO ESPECIFICA" and empty values.
+ */
+export function parseSpecValue(
+	raw: string,
+	attribute?: SpecAttribute,
+): Omit<NormalizedSpec, "key" | "label"> | null {
+	const text = raw.replace(/\s+/g, " ").trim();
+	const folded = foldText(text);
+
+	if (!folded || folded === NOT_SPECIFIED) {
+		return null;
+	}
+
+	const matches = [...folded.matchAll(NUMBER_WITH_UNIT)];
+	const expected = attribute?.unit;
+
+	if (matches.length === 0 || (!expected && !matches[0][2])) {
+		return { raw, value: null, display: text };
+	}
+
+	const [first, second] = matches.map((match) => {
+		const { unit, factor } = resolveUnit(match[2], expected);
+		return {
+			value: parseLocaleNumber(match[1]) * factor,
+			unit,
+		};
+	});
+
+	const unit = first.unit ?? second?.unit;
+	const unitSuffix = unit ? ` ${unit}` : "";
+
+	// Ranges such as "50-59 pulgadas" or "de 50 a 59 pulgadas"
+	if (second && /\d\s*(-|–|a)\s*\d/.test(folded)) {
+		return {
+			raw,
+			value: first.value,
+			max: second.value,
+			unit,
+			display: `${formatNumber(first.value)}-${formatNumber(second.value)}${unitSuffix}`,
+		};
+	}
+
+	// Open ranges such as "más de 60 pulgadas"
+	if (/\b(mas de|desde|mayor a)\b/.test(folded)) {
+		return {
+			raw,
+			value: first.value,
+			max: Number.POSITIVE_INFINITY,
+			unit,
+			display: `${formatNumber(first.value)}+${unitSuffix}`,
+		};
+	}
+
+	return {
+		raw,
+		value: first.value,
+		unit,
+		display: `${formatNumber(first.value)}${unitSuffix}`,
+	};
+}
+
+/**
+ * Normalizes a list of store spec entries into canonical specs. When several
+ * store keys map to the same attribute, the first one with a value wins.
+ */
+export function normalizeSpecs(
+	entries: Array<{ k: string; v: string }>,
+): NormalizedSpec[] {
+	const specs = new Map<string, NormalizedSpec>();
+
+	for (const { k, v } of entries) {
+		if (typeof v !== "string") {
+			continue;
+		}
+
+		const attribute = findSpecAttribute(k);
+		const key = attribute?.key ?? foldText(k).trim().replace(/\s+/g, "_");
+
+		if (specs.has(key)) {
+			continue;
+		}
+
+		const parsed = parseSpecValue(v, attribute);
+
+		if (parsed) {
+			specs.set(key, { key, label: attribute?.label ?? k, ...parsed });
+		}
+	}
+
+	return [...specs.values()];
+}
+
+/**
+ * Normalizes the "f.*" feature fields of a search document
+ */
+export function getDocumentSpecs(
+	document: Record<string, unknown>,
+): NormalizedSpec[] {
+	return normalizeSpecs(
+		Object.keys(document)
+			.filter((key) => key.startsWith("f."))
+			.map((key) => ({ k: key.substring(2), v: String(document[key]) })),
+	);
+}
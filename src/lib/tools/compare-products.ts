@@ -0,0 +1,42 @@
+import { compareProducts as buildComparison } from "@/lib/compare";
+import { getSearchProvider } from "@/lib/search";
+import type { ProductDocument } from "@/lib/search/types";
+import { tool } from "ai";
+import { z } from "zod";
+
+export const compareProducts = tool({
+	description:
+		"Compare 2 to 5 products side by side. Use the product IDs returned by searchProducts. Returns a ready-to-render markdown comparison table where the best value of each row is bold and rows that differ are marked with ≠.",
+	parameters: z.object({
+		productIds: z
+			.array(z.string())
+			.min(2)
+			.max(5)
+			.describe(
+				"IDs of the products to compare, from the ID column of searchProducts results",
+			),
+	}),
+	execute: async ({ productIds }) => {
+		const provider = getSearchProvider();
+		const ids = [...new Set(productIds)];
+		const documents = await Promise.all(ids.map((id) => provider.getById(id)));
+
+		const found = documents.filter(
+			(document): document is ProductDocument => document !== null,
+		);
+		const missing = ids.filter((_, index) => documents[index] === null);
+
+		return buildComparison(found, missing);
+	},
+	// The UI renders the structured products, the model only needs the table,
+	// or the explanation when fewer than two products were found
+	experimental_toToolResultContent: (result) => [
+		{
+			type: "text",
+			text:
+				result.rows.length > 0 && result.missing.length > 0
+					? `${result.markdown}\nProducts not found: ${result.missing.join(", ")}\n`
+					: result.markdown,
+		},
+	],
+});
@@ -0,0 +1,67 @@
+import { createAlert } from "@/lib/alerts";
+import { alertChannelSchema } from "@/lib/alerts/schema";
+import { formatPrice } from "@/lib/price-insight";
+import { tool } from "ai";
+import { z } from "zod";
+
+/**
+ * Creates the price alert tool. `baseUrl` is where the confirmation links sent
+ * to new contacts point, i.e. the origin of the chat request.
+ */
+export function createPriceAlertTool({ baseUrl }: { baseUrl: string }) {
+	return tool({
+		description:
+			"Set up a price alert for a product, so the user is notified by email or WhatsApp when it drops below a target price or reaches a new historical minimum. Only call it once the user has given their contact.",
+		parameters: z.object({
+			productId: z
+				.string()
+				.describe("ID of the product, from the ID column of searchProducts"),
+			targetPrice: z
+				.number()
+				.positive()
+				.optional()
+				.describe(
+					"Notify when the price is at or below this amount in soles. Leave empty to notify on a new historical minimum instead.",
+				),
+			channel: alertChannelSchema.describe(
+				"How to notify the user: { type: 'email', address: 'ana@mail.com' } or { type: 'whatsapp', address: '+51987654321' }",
+			),
+		}),
+		execute: async ({ productId, targetPrice, channel }) => {
+			const result = await createAlert(
+				{
+					productId,
+					condition: targetPrice
+						? { type: "below", targetPrice }
+						: { type: "new_minimum" },
+					channel,
+				},
+				{ baseUrl },
+			);
+
+			if (result.status === "not_found") {
+				return { alert: null, text: `Product ${productId} not found.` };
+			}
+
+			if (result.status === "confirmation_limit") {
+				return {
+					alert: null,
+					text: `Too many alert confirmations were sent to ${channel.address} today. Ask the user to confirm a pending alert or try again tomorrow.`,
+				};
+			}
+
+			const { alert } = result;
+			const condition =
+				alert.condition.type === "below"
+					? `when the price drops to ${formatPrice(alert.condition.targetPrice)} or less`
+					: `when it reaches a new historical minimum (below ${formatPrice(alert.baselineMinimum)})`;
+			return {
+				alert,
+				text: `Alert created for "${alert.productTitle}" (current price ${formatPrice(alert.createdPrice)}). The user will be notified by ${alert.channel.type} at ${alert.channel.address} ${condition}. A confirmation link was sent to ${alert.channel.address}: the alert only starts once the user opens it.`,
+			};
+		},
+		experimental_toToolResultContent: (result) => [
+			{ type: "text", text: result.text },
+		],
+	});
+}
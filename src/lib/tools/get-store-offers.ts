@@ -0,0 +1,17 @@
+import { getStoreOffers as fetchStoreOffers } from "@/lib/offers";
+import { tool } from "ai";
+import { z } from "zod";
+
+export const getStoreOffers = tool({
+	description:
+		"Get every store offer for a product, sorted from cheapest to most expensive. Distinguishes cash and credit card prices and flags stores without stock. Use it when the user asks where a product is cheapest or which stores sell it.",
+	parameters: z.object({
+		productId: z
+			.string()
+			.describe("ID of the product, from the ID column of searchProducts"),
+	}),
+	execute: async ({ productId }) => fetchStoreOffers(productId),
+	experimental_toToolResultContent: (result) => [
+		{ type: "text", text: result.markdown },
+	],
+});
@@ -0,0 +1,184 @@
+import { getSearchProvider } from "@/lib/search";
+import { withSearchCache } from "@/lib/search/cache";
+import { hybridSearch } from "@/lib/search/hybrid";
+import {
+	MAX_PAGE_SIZE,
+	clampPageSize,
+	decodeCursor,
+	encodeCursor,
+	hasNextPage,
+} from "@/lib/search/pagination";
+import { normalizeQuery } from "@/lib/search/query";
+import type { SearchParams } from "@/lib/search/types";
+import { SPEC_KEYS } from "@/lib/specs";
+import { buildProductResults } from "@/lib/utils/parse-search-results";
+import { tool } from "ai";
+import { z } from "zod";
+
+// Repeated searches, within a conversation or across users, are served from Redis
+const cachedHybridSearch = withSearchCache((params) => hybridSearch(params));
+
+/**
+ * Creates the product search tool. Admin and debug requests disable the cache
+ * to see live backend results; evals disable semantic search to stay on the
+ * fixture catalog.
+ */
+export function createSearchProductsTool({
+	cache = true,
+	semantic = true,
+} = {}) {
+	// Keyword-only results must not share cache entries with hybrid ones
+	const search = !semantic
+		? (params: SearchParams) =>
+				hybridSearch(params, getSearchProvider(), { semantic: false })
+		: cache
+			? cachedHybridSearch
+			: hybridSearch;
+
+	return tool({
+		description:
+			"Search for products in the Compy catalog. Combines keyword and semantic search, so it handles both product names and descriptions of a need.",
+		parameters: z.object({
+			query: z
+				.string()
+				.describe(`The search query to find relevant products. Must be in Spanish and singular. A product like 'celular', 'laptop rtx 4060', 'televisor led 55'.
+				If the user asks something with units like inches just add the number to the query, not the unit.
+				For example: 'televisor led 55 pulgadas' should be 'televisor led 55'.
+				Put brands, stores, categories and specs in the filter parameters instead of the query when the user asks for them.
+				If the user describes a need instead of a product, pass the need as-is (e.g. 'algo para cocinar arroz rápido'), semantic search will match it.
+				`),
+			priceMax: z.number().optional().describe("Maximum price to filter by"),
+			priceMin: z.number().optional().describe("Minimum price to filter by"),
+			brands: z
+				.array(z.string())
+				.optional()
+				.describe("Only products of these brands, e.g. ['Samsung', 'LG']"),
+			category: z
+				.object({
+					level1: z.string().optional(),
+					level2: z.string().optional(),
+					level3: z.string().optional(),
+				})
+				.optional()
+				.describe(
+					"Category path to filter by, e.g. { level1: 'Tecnologia', level2: 'Televisores', level3: 'LED' }. Only use category names seen in previous results.",
+				),
+			stores: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Only products sold in these stores, e.g. ['Falabella', 'plazaVea']",
+				),
+			minStores: z
+				.number()
+				.int()
+				.positive()
+				.optional()
+				.describe("Only products available in at least this many stores"),
+			features: z
+				.array(
+					z.object({
+						key: z.enum(SPEC_KEYS).describe("Canonical spec"),
+						min: z
+							.number()
+							.optional()
+							.describe("Minimum value, e.g. RAM >= 16 (GB)"),
+						max: z.number().optional().describe("Maximum value"),
+						equals: z
+							.union([z.number(), z.string()])
+							.optional()
+							.describe(
+								"Exact value, e.g. screen_size 55 (pulgadas) or processor 'i7'",
+							),
+					}),
+				)
+				.optional()
+				.describe(
+					"Spec constraints. Units: ram/storage in GB, screen_size in pulgadas, power in W, weight in kg, refresh_rate in Hz, battery in mAh.",
+				),
+			page: z
+				.number()
+				.int()
+				.positive()
+				.optional()
+				.describe("Page of results to return, starting at 1"),
+			pageSize: z
+				.number()
+				.int()
+				.positive()
+				.max(MAX_PAGE_SIZE)
+				.optional()
+				.describe(
+					"Products per page. Leave empty unless the user asks for more",
+				),
+			cashOnly: z
+				.boolean()
+				.optional()
+				.describe(
+					"Leave out prices that need a store's credit card, e.g. when the user says 'solo precio sin tarjeta' or has no bank card",
+				),
+			cursor: z
+				.string()
+				.optional()
+				.describe(
+					"Cursor from a previous result to show more of the same search. When given, the other parameters are ignored.",
+				),
+		}),
+		execute: async ({
+			query,
+			priceMax,
+			priceMin,
+			brands,
+			category,
+			stores,
+			minStores,
+			features,
+			page,
+			pageSize,
+			cashOnly,
+			cursor,
+		}) => {
+			// Measures in the query become spec filters, unless given explicitly
+			const normalized = normalizeQuery(query);
+			const queryFeatures = normalized.features.filter(
+				(feature) => !features?.some(({ key }) => key === feature.key),
+			);
+
+			// An unreadable cursor falls back to the explicit parameters. Cursors
+			// already carry a normalized query.
+			const params = (cursor && decodeCursor(cursor)) || {
+				query: normalized.normalized,
+				priceMax,
+				priceMin,
+				filters: {
+					brands,
+					category,
+					stores,
+					minStores,
+					features: [...(features ?? []), ...queryFeatures],
+				},
+				page: page ?? 1,
+				perPage: clampPageSize(pageSize),
+				cashOnly,
+			};
+
+			// Card prices only change how results are shown, not the search
+			const { cashOnly: showCashOnly, ...searchParams } = params;
+			const data = await search({ ...searchParams, facets: true });
+
+			return buildProductResults(data, {
+				originalQuery: cursor ? undefined : query,
+				cashOnly: showCashOnly,
+				nextCursor: hasNextPage(data.found, params.page, params.perPage)
+					? encodeCursor({ ...params, page: params.page + 1 })
+					: undefined,
+			});
+		},
+		// The UI renders the structured products, the model only needs the compact text
+		experimental_toToolResultContent: (result) => [
+			{ type: "text", text: result.text },
+		],
+	});
+}
+
+export const searchProducts = createSearchProductsTool();
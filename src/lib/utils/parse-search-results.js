@@ -1,65 +1,188 @@
+import { formatPrice, getPriceInsight } from '@/lib/price-insight';
+import { FACET_LABELS, PRICE_BUCKETS, PRICE_FACET_FIELD } from '@/lib/search/facets';
+import { getDocumentSpecs } from '@/lib/specs';
 
 /**
- * Compresses product search results data into a markdown table format optimized for LLMs
- * @param {Object} data - The original product search results JSON
- * @returns {string} Compressed representation of the data as a markdown table
+ * Extracts the essential product info from a search document
+ * @param {import('@/lib/search/types').ProductDocument} doc - A product document
+ * @param {{ cashOnly?: boolean }} [options] - Leave out card prices, for users without the store's card
+ * @returns {import('@/lib/search/types').ProductResult} Product for the UI and the LLM
  */
-export function compressProductData(data) {
-  // Extract essential product info from each hit
-  const products = data.hits.map(hit => {
-    const doc = hit.document;
+export function toProductResult(doc, { cashOnly = false } = {}) {
+  // Normalize all features (properties starting with "f.") into canonical specs
+  const features = Object.fromEntries(
+    getDocumentSpecs(doc).map(spec => [spec.label, spec.display])
+  );
 
-    // Extract all features (properties starting with "f.")
-    const features = Object.keys(doc)
-      .filter(key => key.startsWith('f.') && doc[key] !== 'NO ESPECIFICA')
-      .map(key => `${key.substring(2)}: ${doc[key]}`)
-      .join(', ');
+  // Get all stores, falling back to the top store
+  const stores = doc.stores ?? (doc.topstore ? [doc.topstore] : []);
+
+  return {
+    id: doc.id,
+    title: doc.title,
+    brand: doc.brand,
+    model: doc.repmodel,
+    price: doc.bestprice,
+    image_url: doc.images && doc.images.length > 0 ? doc.images[0] : undefined,
+    // Always the Compy product page, never the store's own URL
+    product_url: doc.url_compy || `https://compy.pe/galeria/producto/${doc.id}`,
+    stores,
+    store_count: doc.numtiendas ?? stores.length,
+    features,
+    // Buy-timing verdict computed from the price history metrics
+    insight: getPriceInsight(cashOnly ? { ...doc, price_card: null } : doc),
+  };
+}
 
-    // Get first image if available
-    const firstImage = doc.images && doc.images.length > 0 ? doc.images[0] : '';
-
-    // Get all stores as comma-separated string
-    const storesList = doc.stores ? doc.stores.join(', ') : (doc.topstore || '');
-
-    return {
-      title: doc.title,
-      brand: doc.brand,
-      model: doc.repmodel,
-      price: doc.bestprice,
-      features: features,
-      image: firstImage,
-      stores: storesList,
-      url: doc.url_compy || doc.url,
-      compy_url: doc.url_compy,
-    };
-  });
+/**
+ * Builds the structured result of a product search: typed products for the UI,
+ * a summary, the facet counts and a compact markdown text for the LLM
+ * @param {import('@/lib/search/types').SearchResponse} data - The original product search results JSON
+ * @param {{ nextCursor?: string, originalQuery?: string, cashOnly?: boolean }} [options] - Cursor to fetch the next page, if there is one, the query before normalization and whether to leave out card prices
+ * @returns {import('@/lib/search/types').ProductSearchResult} Structured search result
+ */
+export function buildProductResults(data, { nextCursor, originalQuery, cashOnly = false } = {}) {
+  // Extract essential product info from each hit
+  const products = data.hits.map(hit => toProductResult(hit.document, { cashOnly }));
+  const perPage = data.request_params.per_page;
 
   // Add summary stats
   const summary = {
     total_found: data.found,
     results_count: products.length,
     search_query: data.request_params.q,
-    page: data.page
+    original_query: originalQuery !== data.request_params.q ? originalQuery : undefined,
+    page: data.page,
+    per_page: perPage,
+    total_pages: Math.max(Math.ceil(data.found / perPage), 1),
+    remaining: Math.max(data.found - (data.page - 1) * perPage - products.length, 0),
+    next_cursor: nextCursor,
+    cash_only: cashOnly,
   };
 
-  return formatAsMarkdown(products, summary);
+  const facets = summarizeFacets(data.facet_counts ?? []);
+
+  return {
+    products,
+    summary,
+    facets,
+    text: formatAsMarkdown(products, summary) + formatFacetsAsMarkdown(facets),
+  };
 }
 
 /**
- * Formats product data as a markdown table
+ * Summarizes the raw facet counts with readable labels, keeping price ranges
+ * in ascending order and dropping empty facets
+ * @param {import('@/lib/search/types').FacetCount[]} facetCounts - Facet counts from the search backend
+ */
+function summarizeFacets(facetCounts) {
+  return facetCounts
+    .filter(facet => facet.counts.length > 0)
+    .map(facet => {
+      const values = facet.counts
+        .filter(({ count }) => count > 0)
+        .map(({ value, count }) => ({
+          value,
+          label: PRICE_BUCKETS.find(bucket => facet.field_name === PRICE_FACET_FIELD && bucket.key === value)?.label ?? value,
+          count,
+        }));
+
+      if (facet.field_name === PRICE_FACET_FIELD) {
+        values.sort((a, b) =>
+          PRICE_BUCKETS.findIndex(bucket => bucket.key === a.value) -
+          PRICE_BUCKETS.findIndex(bucket => bucket.key === b.value)
+        );
+      }
+
+      return {
+        field: facet.field_name,
+        label: FACET_LABELS[facet.field_name] ?? facet.field_name,
+        values,
+      };
+    });
+}
+
+/**
+ * Compresses product search results data into a markdown table format optimized for LLMs
+ * @param {Object} data - The original product search results JSON
+ * @returns {string} Compressed representation of the data as a markdown table
+ */
+export function compressProductData(data) {
+  return buildProductResults(data).text;
+}
+
+/**
+ * Formats product data as a markdown table. Images are left out because the
+ * chat page renders them in the product cards.
  */
 function formatAsMarkdown(products, summary) {
   let output = '## Product Search Results\n';
-  output += `*Query: "${summary.search_query}" - Found: ${summary.total_found} (Page ${summary.page})*\n\n`;
-  output += '| Title | Brand | Model | Price | Features | Image | Stores | Compy URL |\n';
-  output += '|-------|-------|-------|-------|----------|-------|--------|-----------|\n';
+  const originalQuery = summary.original_query ? ` (from "${summary.original_query}")` : '';
+  output += `*Query: "${summary.search_query}"${originalQuery} - Found: ${summary.total_found} (Page ${summary.page} of ${summary.total_pages}, ${summary.remaining} more)*\n\n`;
+  if (summary.cash_only) {
+    output += '*Card prices left out: every price is payable in cash or with any card*\n\n';
+  }
+  output += '| ID | Title | Brand | Model | Price | Card Price | Lowest Price | vs Lowest | vs Median | Verdict | Savings | Features | Stores | Compy URL |\n';
+  output += '|----|-------|-------|-------|-------|------------|--------------|-----------|-----------|---------|---------|----------|--------|-----------|\n';
 
   for (const product of products) {
+    const { insight } = product;
+    const cardCell = formatCardPrice(insight.cardPrice);
+    const lowestCell = insight.lowestPrice !== null ? formatPrice(insight.lowestPrice) : '';
+    const aboveMinimumCell = formatPercent(insight.percentAboveMinimum);
+    const vsMedianCell = formatPercent(insight.percentVsMedian);
+    const featuresCell = Object.entries(product.features)
+      .map(([key, value]) => `${key}: ${value}`)
+      .join(', ');
+
+    output += `| ${product.id} | ${product.title} | ${product.brand} | ${product.model} | ${formatPrice(product.price)} | ${cardCell} | ${lowestCell} | ${aboveMinimumCell} | ${vsMedianCell} | ${insight.label} | ${insight.savings ?? ''} | ${featuresCell} | ${product.stores.join(', ')} | [Compy URL](${product.product_url}) |\n`;
+  }
+
+  if (summary.next_cursor) {
+    output += `\n*${summary.remaining} more results. To show more, call searchProducts again with cursor: \`${summary.next_cursor}\`*\n`;
+  } else if (summary.remaining > 0) {
+    output += `\n*${summary.remaining} more results can't be paged through. Suggest narrowing the search with filters.*\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Formats a card price with the store issuing the card and its own verdict,
+ * e.g. "S/ 1899.00 (Oechsle card, 🟢 Good time to buy)"
+ */
+function formatCardPrice(cardPrice) {
+  if (!cardPrice) {
+    return '';
+  }
+
+  const card = cardPrice.store ? `${cardPrice.store} card` : 'store card';
+  return `${formatPrice(cardPrice.price)} (${card}, ${cardPrice.label})`;
+}
+
+/**
+ * Formats a signed percentage difference, e.g. "+12.5%" or "-3%"
+ */
+function formatPercent(value) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  return `${value > 0 ? '+' : ''}${value}%`;
+}
+
+/**
+ * Formats the facet breakdown as a list the assistant can turn into filter suggestions
+ */
+function formatFacetsAsMarkdown(facets) {
+  if (facets.length === 0) {
+    return '';
+  }
 
-    // Format image as markdown link if available
-    const imageCell = product.image ? `![Image](${product.image})` : '';
+  let output = '\n## Refinement Options\n';
 
-    output += `| ${product.title} | ${product.brand} | ${product.model} | ${product.price} | ${product.features} | ${imageCell} | ${product.stores} | [Compy URL](${product.compy_url}) |\n`;
+  for (const facet of facets) {
+    output += `- ${facet.label} (${facet.field}): ${facet.values.map(({ label, count }) => `${label} (${count})`).join(', ')}\n`;
   }
 
   return output;
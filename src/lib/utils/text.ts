@@ -0,0 +1,23 @@
+/**
+ * Lowercases and strips accents so "Tamaño" matches "tamano"
+ */
+export function foldText(text: string): string {
+	return text
+		.normalize("NFD")
+		.replace(/\p{Diacritic}/gu, "")
+		.toLowerCase();
+}
+
+// A number as stores and users write it: "5", "1.5", "1,5", "1,200" or
+// "2,000,000". A comma before exactly three digits separates thousands.
+export const NUMBER_PATTERN = String.raw`\d+(?:,\d{3}(?!\d))*(?:[.,]\d+)?`;
+
+/**
+ * Parses a number matched by NUMBER_PATTERN: "1,200 W" is 1200, "1,5 kg" is
+ * 1.5
+ */
+export function parseLocaleNumber(text: string): number {
+	return Number.parseFloat(
+		text.replace(/,(?=\d{3}(?!\d))/g, "").replace(",", "."),
+	);
+}
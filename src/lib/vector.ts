@@ -1,6 +1,20 @@
 import { Index } from "@upstash/vector";
 
-export const vectorIndex = new Index({
-	url: process.env.UPSTASH_VECTOR_REST_URL,
-	token: process.env.UPSTASH_VECTOR_REST_TOKEN,
-});
+let index: Index | undefined;
+
+export function isVectorIndexConfigured(): boolean {
+	return Boolean(
+		process.env.UPSTASH_VECTOR_REST_URL &&
+			process.env.UPSTASH_VECTOR_REST_TOKEN,
+	);
+}
+
+// Created lazily so modules importing this file load without vector credentials
+export function getVectorIndex(): Index {
+	index ??= new Index({
+		url: process.env.UPSTASH_VECTOR_REST_URL,
+		token: process.env.UPSTASH_VECTOR_REST_TOKEN,
+	});
+
+	return index;
+}